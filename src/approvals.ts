@@ -0,0 +1,79 @@
+import { randomUUID } from "node:crypto";
+import { readStateFile, writeStateFile } from "./state.ts";
+import type {
+  Approval,
+  ApprovalRequest,
+  ApprovalStatus,
+  OperationType,
+} from "./types.ts";
+
+// Queue of operations waiting for a human decision
+
+const STATE_FILE = "approvals.json";
+
+function loadApprovals(): Approval[] {
+  return readStateFile<Approval[]>(STATE_FILE, []);
+}
+
+export function createApproval(entry: {
+  command: string;
+  operation: OperationType;
+  resourceId: string;
+  rule: string;
+  request: ApprovalRequest;
+}): Approval {
+  const approval: Approval = {
+    id: randomUUID(),
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    ...entry,
+  };
+  writeStateFile(STATE_FILE, [...loadApprovals(), approval]);
+  return approval;
+}
+
+export function listApprovals(status?: ApprovalStatus): Approval[] {
+  const approvals = loadApprovals();
+  return status ? approvals.filter((a) => a.status === status) : approvals;
+}
+
+export function getApproval(id: string): Approval {
+  const approval = loadApprovals().find((a) => a.id === id);
+  if (!approval) {
+    throw { error: `Approval not found: ${id}`, code: "APPROVAL_NOT_FOUND" };
+  }
+  return approval;
+}
+
+// Pending approvals only; decided ones are kept as history
+export function getPendingApproval(id: string): Approval {
+  const approval = getApproval(id);
+  if (approval.status !== "pending") {
+    throw {
+      error: `Approval ${id} is already ${approval.status}`,
+      code: "APPROVAL_NOT_PENDING",
+    };
+  }
+  return approval;
+}
+
+export function decideApproval(
+  id: string,
+  decision: Pick<Approval, "status" | "result" | "error" | "reason">
+): Approval {
+  const approvals = loadApprovals();
+  const index = approvals.findIndex((a) => a.id === id);
+  const current = approvals[index];
+  if (!current) {
+    throw { error: `Approval not found: ${id}`, code: "APPROVAL_NOT_FOUND" };
+  }
+
+  const updated: Approval = {
+    ...current,
+    ...decision,
+    decidedAt: new Date().toISOString(),
+  };
+  approvals[index] = updated;
+  writeStateFile(STATE_FILE, approvals);
+  return updated;
+}
@@ -0,0 +1,107 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { AuditEntry, Config, PermissionCheckResult } from "./types.ts";
+
+// Command that triggered the current permission checks (e.g. "page get")
+let currentCommand = "unknown";
+
+export function setAuditCommand(command: string): void {
+  currentCommand = command;
+}
+
+export function getAuditCommand(): string {
+  return currentCommand;
+}
+
+export function getAuditPath(config: Config): string | null {
+  if (!config.audit || !config.audit.enabled) {
+    return null;
+  }
+  const path = config.audit.path;
+  if (path === "~" || path.startsWith("~/")) {
+    return join(homedir(), path.slice(1));
+  }
+  return path;
+}
+
+export function hashPayload(payload: unknown): string | undefined {
+  if (payload === undefined) {
+    return undefined;
+  }
+  return createHash("sha256")
+    .update(JSON.stringify(payload) ?? "")
+    .digest("hex");
+}
+
+export function recordDecision(
+  config: Config,
+  operation: string,
+  resourceId: string,
+  result: PermissionCheckResult,
+  payload?: unknown
+): void {
+  const path = getAuditPath(config);
+  if (!path) {
+    return;
+  }
+
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    command: currentCommand,
+    operation,
+    resourceId,
+    rule: result.rule?.name,
+    reason: result.reason,
+    allowed: result.allowed,
+    payloadHash: hashPayload(payload),
+  };
+
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+export interface AuditFilter {
+  rule?: string;
+  operation?: string;
+  since?: Date;
+  until?: Date;
+  allowed?: boolean;
+}
+
+export function readAuditEntries(path: string): AuditEntry[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return entries;
+}
+
+export function filterAuditEntries(
+  entries: AuditEntry[],
+  filter: AuditFilter
+): AuditEntry[] {
+  return entries.filter((entry) => {
+    if (filter.rule !== undefined && entry.rule !== filter.rule) return false;
+    if (filter.operation !== undefined && entry.operation !== filter.operation) {
+      return false;
+    }
+    if (filter.allowed !== undefined && entry.allowed !== filter.allowed) {
+      return false;
+    }
+    const time = Date.parse(entry.timestamp);
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    return true;
+  });
+}
@@ -0,0 +1,143 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// Persistent lookup cache shared across CLI invocations
+// (each command is a fresh process, so an in-memory cache rarely hits)
+
+export type CacheNamespace = "parents" | "users";
+
+interface CacheEntry {
+  value: string | null;
+  expiresAt: number;
+}
+
+type CacheData = Record<CacheNamespace, Record<string, CacheEntry>>;
+
+export const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+const CACHE_DIR = join(
+  process.env.XDG_CACHE_HOME ?? join(homedir(), ".cache"),
+  "safe-notion"
+);
+const CACHE_PATH = join(CACHE_DIR, "cache.json");
+
+let data: CacheData | null = null;
+
+export function getCachePath(): string {
+  return CACHE_PATH;
+}
+
+function emptyData(): CacheData {
+  return { parents: {}, users: {} };
+}
+
+function load(): CacheData {
+  if (data) {
+    return data;
+  }
+
+  data = emptyData();
+  if (existsSync(CACHE_PATH)) {
+    try {
+      const parsed = JSON.parse(readFileSync(CACHE_PATH, "utf-8"));
+      data.parents = parsed.parents ?? {};
+      data.users = parsed.users ?? {};
+    } catch {
+      // Corrupt cache files are discarded
+    }
+  }
+  return data;
+}
+
+function save(): void {
+  const current = load();
+  const now = Date.now();
+  for (const namespace of Object.keys(current) as CacheNamespace[]) {
+    for (const [key, entry] of Object.entries(current[namespace])) {
+      if (entry.expiresAt <= now) delete current[namespace][key];
+    }
+  }
+
+  try {
+    mkdirSync(CACHE_DIR, { recursive: true });
+    // Write then rename so concurrent readers never see a partial file
+    const tmpPath = `${CACHE_PATH}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(current), "utf-8");
+    renameSync(tmpPath, CACHE_PATH);
+  } catch {
+    // The cache is an optimization; failing to persist it is not an error
+  }
+}
+
+// Returns undefined on a miss, null for a cached "no value"
+export function getCached(
+  namespace: CacheNamespace,
+  key: string
+): string | null | undefined {
+  const entry = load()[namespace][key];
+  if (!entry || entry.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  return entry.value;
+}
+
+export function setCached(
+  namespace: CacheNamespace,
+  key: string,
+  value: string | null
+): void {
+  load()[namespace][key] = { value, expiresAt: Date.now() + CACHE_TTL_MS };
+  save();
+}
+
+export function deleteCachedMatching(
+  namespace: CacheNamespace,
+  matches: (key: string) => boolean
+): void {
+  const current = load();
+  const keys = Object.keys(current[namespace]).filter(matches);
+  for (const key of keys) {
+    delete current[namespace][key];
+  }
+  if (keys.length > 0) {
+    save();
+  }
+}
+
+export function clearCacheStore(): void {
+  data = emptyData();
+  rmSync(CACHE_PATH, { force: true });
+}
+
+export interface CacheStats {
+  path: string;
+  sizeBytes: number;
+  ttlSeconds: number;
+  entries: Record<CacheNamespace, { live: number; expired: number }>;
+}
+
+export function getCacheStats(): CacheStats {
+  const current = load();
+  const now = Date.now();
+  const count = (namespace: CacheNamespace) => {
+    const entries = Object.values(current[namespace]);
+    const live = entries.filter((entry) => entry.expiresAt > now).length;
+    return { live, expired: entries.length - live };
+  };
+
+  return {
+    path: CACHE_PATH,
+    sizeBytes: existsSync(CACHE_PATH) ? statSync(CACHE_PATH).size : 0,
+    ttlSeconds: CACHE_TTL_MS / 1000,
+    entries: { parents: count("parents"), users: count("users") },
+  };
+}
@@ -0,0 +1,155 @@
+import { createHash } from "node:crypto";
+import { createInterface } from "node:readline/promises";
+import { Command } from "commander";
+import { getClient } from "../notion-client.ts";
+import { loadConfig } from "../config.ts";
+import {
+  listApprovals,
+  getApproval,
+  getPendingApproval,
+  decideApproval,
+} from "../approvals.ts";
+import type { Approval, ApprovalStatus, Config } from "../types.ts";
+import { outputJson, handleError } from "./utils.ts";
+
+const STATUSES: ApprovalStatus[] = ["pending", "executed", "failed", "rejected"];
+
+function parseStatus(value: string): ApprovalStatus | undefined {
+  if (value === "all") {
+    return undefined;
+  }
+  if (!STATUSES.includes(value as ApprovalStatus)) {
+    throw {
+      error: `Invalid status value. Must be one of: ${STATUSES.join(", ")}, all`,
+      code: "INVALID_ARGUMENT",
+    };
+  }
+  return value as ApprovalStatus;
+}
+
+const APPROVER_SECRET_ENV = "SAFE_NOTION_APPROVER_SECRET";
+
+// Decisions must come from a human, not from the agent using the same CLI:
+// either the approver secret (when configured) or a confirmation typed into
+// an interactive terminal
+async function authorizeDecision(
+  config: Config,
+  approval: Approval,
+  decision: "approve" | "reject"
+): Promise<void> {
+  if (config.approverSecretHash) {
+    const secret = process.env[APPROVER_SECRET_ENV];
+    const hash = secret
+      ? createHash("sha256").update(secret).digest("hex")
+      : undefined;
+    if (hash !== config.approverSecretHash) {
+      throw {
+        error: `A valid approver secret in ${APPROVER_SECRET_ENV} is required to ${decision} operations`,
+        code: "APPROVER_NOT_AUTHORIZED",
+      };
+    }
+    return;
+  }
+
+  if (!process.stdin.isTTY || !process.stderr.isTTY) {
+    throw {
+      error: `Approvals can only be decided from an interactive terminal (or with approverSecretHash configured)`,
+      code: "APPROVER_NOT_AUTHORIZED",
+    };
+  }
+
+  const prompt = createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  try {
+    process.stderr.write(
+      `${approval.operation} on ${approval.resourceId} (rule '${approval.rule}', queued by '${approval.command}')\n`
+    );
+    const answer = await prompt.question(`${decision}? [y/N] `);
+    if (!["y", "yes"].includes(answer.trim().toLowerCase())) {
+      throw { error: "Cancelled", code: "APPROVAL_CANCELLED" };
+    }
+  } finally {
+    prompt.close();
+  }
+}
+
+export function createApprovalsCommand(): Command {
+  const approvals = new Command("approvals").description(
+    "Review operations waiting for approval"
+  );
+
+  approvals
+    .command("list")
+    .description("List queued operations")
+    .option(
+      "--status <status>",
+      "pending, executed, failed, rejected or all",
+      "pending"
+    )
+    .action((options) => {
+      try {
+        const entries = listApprovals(parseStatus(options.status));
+        // The full request is shown by "approvals show"
+        outputJson(entries.map(({ request, result, ...summary }) => summary));
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  approvals
+    .command("show")
+    .description("Show a queued operation including its request")
+    .argument("<approval-id>", "Approval ID")
+    .action((approvalId: string) => {
+      try {
+        outputJson(getApproval(approvalId));
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  approvals
+    .command("approve")
+    .description("Re-check permissions and execute a queued operation")
+    .argument("<approval-id>", "Approval ID")
+    .action(async (approvalId: string) => {
+      try {
+        const client = getClient();
+        await authorizeDecision(
+          client.getConfig(),
+          getPendingApproval(approvalId),
+          "approve"
+        );
+        outputJson(await client.approve(approvalId));
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  approvals
+    .command("reject")
+    .description("Reject a queued operation without executing it")
+    .argument("<approval-id>", "Approval ID")
+    .option("--reason <reason>", "Reason recorded with the rejection")
+    .action(async (approvalId: string, options) => {
+      try {
+        await authorizeDecision(
+          loadConfig(),
+          getPendingApproval(approvalId),
+          "reject"
+        );
+        outputJson(
+          decideApproval(approvalId, {
+            status: "rejected",
+            reason: options.reason,
+          })
+        );
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return approvals;
+}
@@ -0,0 +1,99 @@
+import { Command } from "commander";
+import { loadConfig } from "../config.ts";
+import {
+  getAuditPath,
+  readAuditEntries,
+  filterAuditEntries,
+  type AuditFilter,
+} from "../audit.ts";
+import { outputJson, handleError } from "./utils.ts";
+
+function requireAuditPath(): string {
+  const path = getAuditPath(loadConfig());
+  if (!path) {
+    throw {
+      error: "Audit log is not configured. Add an 'audit' section to the config file.",
+      code: "AUDIT_NOT_CONFIGURED",
+    };
+  }
+  return path;
+}
+
+function parseDate(value: string, option: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw {
+      error: `Invalid ${option} value. Must be an ISO 8601 date`,
+      code: "INVALID_ARGUMENT",
+    };
+  }
+  return date;
+}
+
+export function createAuditCommand(): Command {
+  const audit = new Command("audit").description("Audit log inspection");
+
+  audit
+    .command("tail")
+    .description("Show the most recent audit log entries")
+    .option("-n, --lines <count>", "Number of entries to show", "20")
+    .action((options) => {
+      try {
+        const path = requireAuditPath();
+        const count = parseInt(options.lines, 10);
+        const entries = readAuditEntries(path);
+        outputJson(entries.slice(-count));
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  audit
+    .command("query")
+    .description("Filter audit log entries")
+    .option("--rule <name>", "Matched rule name")
+    .option("--operation <operation>", "Operation (e.g. page:update, search)")
+    .option("--since <date>", "Only entries at or after this time (ISO 8601)")
+    .option("--until <date>", "Only entries at or before this time (ISO 8601)")
+    .option("--allowed", "Only allowed decisions")
+    .option("--denied", "Only denied decisions")
+    .action((options) => {
+      try {
+        const path = requireAuditPath();
+
+        const filter: AuditFilter = {};
+
+        if (options.rule) {
+          filter.rule = options.rule;
+        }
+
+        if (options.operation) {
+          filter.operation = options.operation;
+        }
+
+        if (options.since) {
+          filter.since = parseDate(options.since, "--since");
+        }
+
+        if (options.until) {
+          filter.until = parseDate(options.until, "--until");
+        }
+
+        if (options.allowed && options.denied) {
+          throw {
+            error: "--allowed and --denied cannot be used together",
+            code: "INVALID_ARGUMENT",
+          };
+        }
+        if (options.allowed || options.denied) {
+          filter.allowed = Boolean(options.allowed);
+        }
+
+        outputJson(filterAuditEntries(readAuditEntries(path), filter));
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return audit;
+}
@@ -1,6 +1,17 @@
 import { Command } from "commander";
 import { getClient } from "../notion-client.ts";
-import { outputJson, handleError } from "./utils.ts";
+import { renderBlocks } from "../markdown.ts";
+import { redact } from "../redaction.ts";
+import { markdownToBlocks } from "../markdown-parser.ts";
+import {
+  outputJson,
+  outputItems,
+  parsePagination,
+  outputText,
+  parseFormat,
+  readInput,
+  handleError,
+} from "./utils.ts";
 
 export function createBlockCommand(): Command {
   const block = new Command("block").description("Block operations");
@@ -25,9 +36,38 @@ export function createBlockCommand(): Command {
     .argument("<block-id>", "Block ID (can also be a page ID)")
     .option("--start-cursor <cursor>", "Pagination cursor")
     .option("--page-size <size>", "Number of results per page")
+    .option(
+      "--format <format>",
+      "Output format: json, or markdown (renders the full subtree)",
+      "json"
+    )
+    .option("--all", "Follow cursors and return every result")
+    .option("--limit <n>", "Follow cursors until n results were returned")
+    .option("--ndjson", "With --all/--limit, stream one JSON object per line")
     .action(async (blockId: string, options) => {
       try {
+        const format = parseFormat(options.format);
+        const pagination = parsePagination(options);
         const client = getClient();
+
+        if (format === "markdown") {
+          const tree = await client.getBlockTree(blockId);
+          outputText(renderBlocks(redact(tree)));
+          return;
+        }
+
+        if (pagination.follow) {
+          await outputItems(
+            client.iterateBlockChildren(
+              blockId,
+              pagination.limit,
+              options.startCursor
+            ),
+            Boolean(options.ndjson)
+          );
+          return;
+        }
+
         const result = await client.getBlockChildren(
           blockId,
           options.startCursor,
@@ -43,11 +83,24 @@ export function createBlockCommand(): Command {
     .command("append")
     .description("Append children to a block")
     .argument("<block-id>", "Block ID (can also be a page ID)")
-    .requiredOption("--children <json>", "Children blocks as JSON array")
+    .option("--children <json>", "Children blocks as JSON array")
+    .option(
+      "--markdown <text|@file|->",
+      "Children as Markdown (text, @file or - for stdin)"
+    )
     .action(async (blockId: string, options) => {
       try {
+        if (Boolean(options.children) === Boolean(options.markdown)) {
+          throw {
+            error: "Specify exactly one of --children or --markdown",
+            code: "INVALID_ARGUMENT",
+          };
+        }
+
         const client = getClient();
-        const children = JSON.parse(options.children);
+        const children = options.markdown
+          ? markdownToBlocks(readInput(options.markdown))
+          : JSON.parse(options.children);
         const result = await client.appendBlockChildren(blockId, children);
         outputJson(result);
       } catch (error) {
@@ -55,6 +108,29 @@ export function createBlockCommand(): Command {
       }
     });
 
+  block
+    .command("update")
+    .description("Update a block in place (its type cannot change)")
+    .argument("<block-id>", "Block ID")
+    .requiredOption(
+      "--content <json|markdown>",
+      'Type-specific fields as JSON (e.g. \'{"to_do":{"checked":true}}\') or a single Markdown block (text, @file or - for stdin)'
+    )
+    .action(async (blockId: string, options) => {
+      try {
+        const input = readInput(options.content);
+        // A JSON object is sent as-is; anything else is parsed as Markdown
+        const content = input.trim().startsWith("{")
+          ? { data: JSON.parse(input) }
+          : { markdown: input };
+        const client = getClient();
+        const result = await client.updateBlock(blockId, content);
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
   block
     .command("delete")
     .description("Delete a block")
@@ -0,0 +1,34 @@
+import { Command } from "commander";
+import { getCacheStats, clearCacheStore, getCachePath } from "../cache.ts";
+import { outputJson, handleError } from "./utils.ts";
+
+export function createCacheCommand(): Command {
+  const cache = new Command("cache").description(
+    "Page hierarchy cache management"
+  );
+
+  cache
+    .command("stats")
+    .description("Show cache location, size and entry counts")
+    .action(() => {
+      try {
+        outputJson(getCacheStats());
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  cache
+    .command("clear")
+    .description("Delete all cached hierarchy and user lookups")
+    .action(() => {
+      try {
+        clearCacheStore();
+        outputJson({ success: true, path: getCachePath() });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cache;
+}
@@ -0,0 +1,80 @@
+import { Command } from "commander";
+import { getClient, type RichTextRequest } from "../notion-client.ts";
+import { parseInline } from "../markdown-parser.ts";
+import {
+  outputJson,
+  outputItems,
+  parsePagination,
+  readInput,
+  handleError,
+} from "./utils.ts";
+
+export function createCommentCommand(): Command {
+  const comment = new Command("comment").description("Comment operations");
+
+  comment
+    .command("list")
+    .description("List open comments on a page or block")
+    .argument("<page-or-block-id>", "Page or block ID")
+    .option("--start-cursor <cursor>", "Pagination cursor")
+    .option("--page-size <size>", "Number of results per page")
+    .option("--all", "Follow cursors and return every result")
+    .option("--limit <n>", "Follow cursors until n results were returned")
+    .option("--ndjson", "With --all/--limit, stream one JSON object per line")
+    .action(async (blockId: string, options) => {
+      try {
+        const pagination = parsePagination(options);
+        const client = getClient();
+
+        if (pagination.follow) {
+          await outputItems(
+            client.iterateComments(
+              blockId,
+              pagination.limit,
+              options.startCursor
+            ),
+            Boolean(options.ndjson)
+          );
+          return;
+        }
+
+        const result = await client.listComments(
+          blockId,
+          options.startCursor,
+          options.pageSize ? parseInt(options.pageSize, 10) : undefined
+        );
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  comment
+    .command("create")
+    .description("Comment on a page or block, or reply in a discussion")
+    .argument("<page-or-block-id>", "Page or block to comment on")
+    .requiredOption(
+      "--text <text>",
+      "Comment text with inline Markdown (or @file, - for stdin)"
+    )
+    .option(
+      "--discussion <discussion-id>",
+      "Reply in this discussion thread on the page or block"
+    )
+    .action(async (targetId: string, options) => {
+      try {
+        const client = getClient();
+        const richText = parseInline(readInput(options.text));
+        const result = await client.createComment(
+          targetId,
+          richText as RichTextRequest,
+          options.discussion
+        );
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return comment;
+}
@@ -1,5 +1,12 @@
 import { Command } from "commander";
-import { validateConfig, initConfig, getConfigPath, loadConfig } from "../config.ts";
+import {
+  validateConfig,
+  initConfig,
+  getConfigPath,
+  getProfileName,
+  loadConfig,
+  resolveConfigPath,
+} from "../config.ts";
 import { outputJson, handleError } from "./utils.ts";
 
 export function createConfigCommand(): Command {
@@ -16,6 +23,7 @@ export function createConfigCommand(): Command {
           outputJson({
             valid: true,
             path: options.path ?? getConfigPath(),
+            ...(result.warnings ? { warnings: result.warnings } : {}),
           });
         } else {
           outputJson({
@@ -50,7 +58,9 @@ export function createConfigCommand(): Command {
     .command("path")
     .description("Show the configuration file path")
     .action(() => {
-      outputJson({ path: getConfigPath() });
+      const { path, source } = resolveConfigPath();
+      const profile = getProfileName();
+      outputJson({ path, source, ...(profile ? { profile } : {}) });
     });
 
   config
@@ -59,8 +69,10 @@ export function createConfigCommand(): Command {
     .action(() => {
       try {
         const configData = loadConfig();
+        const profile = getProfileName();
         outputJson({
           path: getConfigPath(),
+          ...(profile ? { profile } : {}),
           config: configData,
         });
       } catch (error) {
@@ -1,6 +1,12 @@
 import { Command } from "commander";
 import { getClient } from "../notion-client.ts";
-import { outputJson, handleError } from "./utils.ts";
+import {
+  outputJson,
+  outputItems,
+  parsePagination,
+  handleError,
+} from "./utils.ts";
+import type { SchemaChange } from "../types.ts";
 
 export function createDbCommand(): Command {
   const db = new Command("db").description("Database operations");
@@ -18,15 +24,33 @@ export function createDbCommand(): Command {
       }
     });
 
+  db.command("sources")
+    .description("List the data sources of a database")
+    .argument("<database-id>", "Database ID")
+    .action(async (databaseId: string) => {
+      try {
+        const client = getClient();
+        const result = await client.listDataSources(databaseId);
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
   db.command("query")
     .description("Query a database")
     .argument("<database-id>", "Database ID")
+    .option("--data-source <id>", "Data source to query (see `db sources`)")
     .option("--filter <json>", "Filter as JSON")
     .option("--sorts <json>", "Sorts as JSON array")
     .option("--start-cursor <cursor>", "Pagination cursor")
     .option("--page-size <size>", "Number of results per page", "100")
+    .option("--all", "Follow cursors and return every result")
+    .option("--limit <n>", "Follow cursors until n results were returned")
+    .option("--ndjson", "With --all/--limit, stream one JSON object per line")
     .action(async (databaseId: string, options) => {
       try {
+        const pagination = parsePagination(options);
         const client = getClient();
 
         const params: {
@@ -52,7 +76,24 @@ export function createDbCommand(): Command {
           params.page_size = parseInt(options.pageSize, 10);
         }
 
-        const result = await client.queryDatabase(databaseId, params);
+        if (pagination.follow) {
+          await outputItems(
+            client.iterateDatabaseQuery(
+              databaseId,
+              params,
+              pagination.limit,
+              options.dataSource
+            ),
+            Boolean(options.ndjson)
+          );
+          return;
+        }
+
+        const result = await client.queryDatabase(
+          databaseId,
+          params,
+          options.dataSource
+        );
         outputJson(result);
       } catch (error) {
         handleError(error);
@@ -63,16 +104,170 @@ export function createDbCommand(): Command {
     .description("Create a new page in a database")
     .argument("<database-id>", "Database ID")
     .requiredOption("--properties <json>", "Page properties as JSON")
+    .option("--data-source <id>", "Data source to add the page to")
     .action(async (databaseId: string, options) => {
       try {
         const client = getClient();
         const properties = JSON.parse(options.properties);
-        const result = await client.createDatabasePage(databaseId, properties);
+        const result = await client.createDatabasePage(
+          databaseId,
+          properties,
+          options.dataSource
+        );
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  db.command("create")
+    .description("Create a database under a page")
+    .requiredOption("--parent <page-id>", "Parent page ID")
+    .requiredOption("--title <title>", "Database title")
+    .option(
+      "--properties <json>",
+      'Property configurations as JSON (default: {"Name":{"title":{}}})'
+    )
+    .action(async (options) => {
+      try {
+        const client = getClient();
+        const properties = options.properties
+          ? JSON.parse(options.properties)
+          : undefined;
+        const result = await client.createDatabase(
+          options.parent,
+          options.title,
+          properties
+        );
         outputJson(result);
       } catch (error) {
         handleError(error);
       }
     });
 
+  db.addCommand(createPropertyCommand());
+
   return db;
 }
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+async function applySchemaChange(
+  databaseId: string,
+  dataSourceId: string | undefined,
+  buildChange: () => SchemaChange
+): Promise<void> {
+  try {
+    const change = buildChange();
+    const client = getClient();
+    const result = await client.updateDatabaseSchema(
+      databaseId,
+      change,
+      dataSourceId
+    );
+    outputJson(result);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// Schema changes: add/remove need database:schema, rename/options database:update
+function createPropertyCommand(): Command {
+  const property = new Command("property").description(
+    "Database schema (property) management"
+  );
+
+  property
+    .command("add")
+    .description("Add a property")
+    .argument("<database-id>", "Database ID")
+    .argument("<name>", "Property name")
+    .requiredOption(
+      "--type <type>",
+      "Property type (e.g. rich_text, number, select, date, people)"
+    )
+    .option("--options <names>", "Comma-separated options for select types")
+    .option("--config <json>", "Type-specific configuration as JSON")
+    .option("--data-source <id>", "Data source to change (see `db sources`)")
+    .action(async (databaseId: string, name: string, options) => {
+      await applySchemaChange(databaseId, options.dataSource, () => {
+        const config: Record<string, unknown> = options.config
+          ? JSON.parse(options.config)
+          : {};
+        const names = splitList(options.options);
+        if (names) {
+          config.options = names.map((option) => ({ name: option }));
+        }
+        return { kind: "add", name, config: { [options.type]: config } };
+      });
+    });
+
+  property
+    .command("rename")
+    .description("Rename a property")
+    .argument("<database-id>", "Database ID")
+    .argument("<name>", "Current property name")
+    .argument("<new-name>", "New property name")
+    .option("--data-source <id>", "Data source to change (see `db sources`)")
+    .action(
+      async (databaseId: string, name: string, newName: string, options) => {
+        await applySchemaChange(databaseId, options.dataSource, () => ({
+          kind: "rename",
+          name,
+          newName,
+        }));
+      }
+    );
+
+  property
+    .command("remove")
+    .description("Remove a property and its values")
+    .argument("<database-id>", "Database ID")
+    .argument("<name>", "Property name")
+    .option("--data-source <id>", "Data source to change (see `db sources`)")
+    .action(async (databaseId: string, name: string, options) => {
+      await applySchemaChange(databaseId, options.dataSource, () => ({
+        kind: "remove",
+        name,
+      }));
+    });
+
+  property
+    .command("options")
+    .description("Edit the options of a select, multi-select or status property")
+    .argument("<database-id>", "Database ID")
+    .argument("<name>", "Property name")
+    .option("--add <names>", "Comma-separated options to add")
+    .option("--remove <names>", "Comma-separated options to remove")
+    .option("--rename <pairs>", "Comma-separated old=new option renames")
+    .option("--data-source <id>", "Data source to change (see `db sources`)")
+    .action(async (databaseId: string, name: string, options) => {
+      await applySchemaChange(databaseId, options.dataSource, () => {
+        const rename: Record<string, string> = {};
+        for (const pair of splitList(options.rename) ?? []) {
+          const [from, to] = pair.split("=");
+          if (!from || !to) {
+            throw {
+              error: `Invalid rename '${pair}'. Use old=new`,
+              code: "INVALID_ARGUMENT",
+            };
+          }
+          rename[from] = to;
+        }
+        return {
+          kind: "options",
+          name,
+          add: splitList(options.add),
+          remove: splitList(options.remove),
+          rename,
+        };
+      });
+    });
+
+  return property;
+}
@@ -0,0 +1,38 @@
+import { Command } from "commander";
+import { getClient } from "../notion-client.ts";
+import { PermissionSchema, GranularPermissionValues } from "../types.ts";
+import { outputJson, handleError } from "./utils.ts";
+
+export function createExplainCommand(): Command {
+  const explain = new Command("explain")
+    .description("Trace how the rules evaluate an operation on a resource")
+    .argument("<resource-id>", "Page, database or block ID")
+    .argument("<operation>", "Operation (e.g. page:update)")
+    .option(
+      "--condition-page <id>",
+      "Page whose properties are checked against rule conditions"
+    )
+    .action(async (resourceId: string, operation: string, options) => {
+      try {
+        const parsed = PermissionSchema.safeParse(operation);
+        if (!parsed.success) {
+          throw {
+            error: `Invalid operation. Must be one of: ${GranularPermissionValues.join(", ")}`,
+            code: "INVALID_ARGUMENT",
+          };
+        }
+
+        const client = getClient();
+        const result = await client.explain(
+          resourceId,
+          parsed.data,
+          options.conditionPage
+        );
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return explain;
+}
@@ -0,0 +1,32 @@
+import { Command } from "commander";
+import { getClient } from "../notion-client.ts";
+import { outputJson, handleError } from "./utils.ts";
+
+export function createFileCommand(): Command {
+  const file = new Command("file").description("File operations");
+
+  file
+    .command("upload")
+    .description("Upload a local file and attach it to a page or block")
+    .argument("<path>", "Local file path")
+    .requiredOption("--to <page-or-block-id>", "Page or block to attach to")
+    .option(
+      "--property <name>",
+      "Set this files property of the page instead of appending a block"
+    )
+    .option("--name <name>", "File name shown in Notion (same extension)")
+    .action(async (path: string, options) => {
+      try {
+        const client = getClient();
+        const result = await client.uploadFile(path, options.to, {
+          property: options.property,
+          name: options.name,
+        });
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return file;
+}
@@ -0,0 +1,17 @@
+import { Command } from "commander";
+import { startMcpServer } from "../mcp-server.ts";
+import { handleError } from "./utils.ts";
+
+export function createMcpCommand(): Command {
+  const mcp = new Command("mcp")
+    .description("Run a Model Context Protocol server over stdio")
+    .action(async () => {
+      try {
+        await startMcpServer();
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return mcp;
+}
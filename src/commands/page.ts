@@ -1,6 +1,15 @@
 import { Command } from "commander";
-import { getClient } from "../notion-client.ts";
-import { outputJson, handleError } from "./utils.ts";
+import { getClient, DEFAULT_DUMP_DEPTH } from "../notion-client.ts";
+import { renderPage } from "../markdown.ts";
+import { redact } from "../redaction.ts";
+import { markdownToBlocks } from "../markdown-parser.ts";
+import {
+  outputJson,
+  outputText,
+  parseFormat,
+  readInput,
+  handleError,
+} from "./utils.ts";
 
 export function createPageCommand(): Command {
   const page = new Command("page").description("Page operations");
@@ -9,10 +18,71 @@ export function createPageCommand(): Command {
     .command("get")
     .description("Get a page by ID")
     .argument("<page-id>", "Page ID")
-    .action(async (pageId: string) => {
+    .option("--format <format>", "Output format: json or markdown", "json")
+    .action(async (pageId: string, options) => {
       try {
+        const format = parseFormat(options.format);
         const client = getClient();
         const result = await client.getPage(pageId);
+        if (format === "markdown") {
+          outputText(
+            renderPage({
+              page: redact(result) as Record<string, unknown>,
+              blocks: [],
+            })
+          );
+        } else {
+          outputJson(result);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  page
+    .command("read")
+    .description("Read a page with its full content as Markdown")
+    .argument("<page-id>", "Page ID")
+    .option("--format <format>", "Output format: markdown or json", "markdown")
+    .action(async (pageId: string, options) => {
+      try {
+        const format = parseFormat(options.format);
+        const client = getClient();
+        const result = await client.readPage(pageId);
+        if (format === "markdown") {
+          outputText(renderPage(redact(result)));
+        } else {
+          outputJson(result);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  page
+    .command("dump")
+    .description("Dump a page, its block tree and child pages as nested JSON")
+    .argument("<page-id>", "Page ID")
+    .option(
+      "--depth <n>",
+      "Levels of nested blocks and child pages to fetch",
+      String(DEFAULT_DUMP_DEPTH)
+    )
+    .action(async (pageId: string, options) => {
+      try {
+        const depth = parseInt(options.depth, 10);
+        if (!Number.isInteger(depth) || depth < 1) {
+          throw {
+            error: "Invalid depth value. Must be a positive integer",
+            code: "INVALID_ARGUMENT",
+          };
+        }
+
+        const client = getClient();
+        const result = await client.readPage(pageId, {
+          maxDepth: depth,
+          includeChildPages: true,
+        });
         outputJson(result);
       } catch (error) {
         handleError(error);
@@ -26,8 +96,19 @@ export function createPageCommand(): Command {
     .requiredOption("--title <title>", "Page title")
     .option("--icon <emoji>", "Page icon emoji")
     .option("--content <json>", "Page content as JSON array of blocks")
+    .option(
+      "--markdown <text|@file|->",
+      "Page content as Markdown (text, @file or - for stdin)"
+    )
     .action(async (options) => {
       try {
+        if (options.content && options.markdown) {
+          throw {
+            error: "--content and --markdown cannot be used together",
+            code: "INVALID_ARGUMENT",
+          };
+        }
+
         const client = getClient();
 
         const properties: Record<string, unknown> = {
@@ -54,6 +135,10 @@ export function createPageCommand(): Command {
           params.children = JSON.parse(options.content);
         }
 
+        if (options.markdown) {
+          params.children = markdownToBlocks(readInput(options.markdown));
+        }
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const result = await client.createPage(params as any);
         outputJson(result);
@@ -78,5 +163,20 @@ export function createPageCommand(): Command {
       }
     });
 
+  page
+    .command("move")
+    .description("Move a page under another page or into a database")
+    .argument("<page-id>", "Page ID")
+    .requiredOption("--to <parent-id>", "New parent page or database ID")
+    .action(async (pageId: string, options) => {
+      try {
+        const client = getClient();
+        const result = await client.movePage(pageId, options.to);
+        outputJson(result);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
   return page;
 }
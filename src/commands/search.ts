@@ -1,6 +1,11 @@
 import { Command } from "commander";
-import { getClient } from "../notion-client.ts";
-import { outputJson, handleError } from "./utils.ts";
+import { getClient, type SearchStats } from "../notion-client.ts";
+import {
+  outputJson,
+  outputItems,
+  parsePagination,
+  handleError,
+} from "./utils.ts";
 
 export function createSearchCommand(): Command {
   const search = new Command("search").description("Search pages and databases");
@@ -14,8 +19,12 @@ export function createSearchCommand(): Command {
     )
     .option("--start-cursor <cursor>", "Pagination cursor")
     .option("--page-size <size>", "Number of results per page", "100")
+    .option("--all", "Follow cursors and return every result")
+    .option("--limit <n>", "Follow cursors until n results were returned")
+    .option("--ndjson", "With --all/--limit, stream one JSON object per line")
     .action(async (query: string | undefined, options) => {
       try {
+        const pagination = parsePagination(options);
         const client = getClient();
 
         const params: {
@@ -72,6 +81,16 @@ export function createSearchCommand(): Command {
           params.page_size = parseInt(options.pageSize, 10);
         }
 
+        if (pagination.follow) {
+          const stats: SearchStats = { withheld_count: 0 };
+          await outputItems(
+            client.iterateSearch(params, pagination.limit, stats),
+            Boolean(options.ndjson),
+            stats
+          );
+          return;
+        }
+
         const result = await client.search(params);
         outputJson(result);
       } catch (error) {
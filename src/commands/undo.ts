@@ -0,0 +1,25 @@
+import { Command } from "commander";
+import { getClient } from "../notion-client.ts";
+import { outputJson, handleError } from "./utils.ts";
+
+export function createUndoCommand(): Command {
+  return new Command("undo")
+    .description(
+      "Revert a page update, block append, block update or block delete by its operation ID"
+    )
+    .argument("<op-id>", "Operation ID (op_id) from the write's output")
+    .action(async (opId: string) => {
+      try {
+        const client = getClient();
+        const entry = await client.undo(opId);
+        outputJson({
+          op_id: entry.id,
+          operation: entry.operation,
+          resourceId: entry.resourceId,
+          undoneAt: entry.undoneAt,
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
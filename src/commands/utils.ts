@@ -1,40 +1,123 @@
+import { readFileSync } from "node:fs";
+import { redact } from "../redaction.ts";
 import type { ErrorResponse } from "../types.ts";
 
 export function outputJson(data: unknown): void {
-  console.log(JSON.stringify(data, null, 2));
+  console.log(JSON.stringify(redact(data), null, 2));
+}
+
+export function outputText(text: string): void {
+  process.stdout.write(text.endsWith("\n") ? text : text + "\n");
+}
+
+export type OutputFormat = "json" | "markdown";
+
+export function parseFormat(value: string | undefined): OutputFormat {
+  if (value === undefined || value === "json") {
+    return "json";
+  }
+  if (value === "markdown" || value === "md") {
+    return "markdown";
+  }
+  throw {
+    error: "Invalid format value. Must be 'json' or 'markdown'",
+    code: "INVALID_ARGUMENT",
+  };
+}
+
+export interface PaginationOptions {
+  all?: boolean;
+  limit?: string;
+  ndjson?: boolean;
+}
+
+// Returns whether cursors should be followed, and the item limit if any
+export function parsePagination(options: PaginationOptions): {
+  follow: boolean;
+  limit?: number;
+} {
+  let limit: number | undefined;
+  if (options.limit !== undefined) {
+    limit = parseInt(options.limit, 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw {
+        error: "Invalid limit value. Must be a positive integer",
+        code: "INVALID_ARGUMENT",
+      };
+    }
+  }
+
+  const follow = Boolean(options.all) || limit !== undefined;
+  if (options.ndjson && !follow) {
+    throw {
+      error: "--ndjson requires --all or --limit",
+      code: "INVALID_ARGUMENT",
+    };
+  }
+  return { follow, limit };
+}
+
+// Print auto-paginated items as one list, or one JSON line per item.
+// `summary` (e.g. totals filled in while iterating) is added to the list.
+export async function outputItems(
+  items: AsyncIterable<unknown>,
+  ndjson: boolean,
+  summary: object = {}
+): Promise<void> {
+  if (ndjson) {
+    for await (const item of items) {
+      console.log(JSON.stringify(redact(item)));
+    }
+    return;
+  }
+
+  const results: unknown[] = [];
+  for await (const item of items) {
+    results.push(item);
+  }
+  outputJson({ object: "list", results, ...summary });
+}
+
+// Resolve an option value given as literal text, "@path" or "-" (stdin)
+export function readInput(value: string): string {
+  if (value === "-") {
+    return readFileSync(0, "utf-8");
+  }
+  if (value.startsWith("@")) {
+    return readFileSync(value.slice(1), "utf-8");
+  }
+  return value;
 }
 
 export function handleError(error: unknown): never {
+  outputJson(toErrorResponse(error));
+  process.exit(1);
+}
+
+export function toErrorResponse(error: unknown): ErrorResponse {
   if (isErrorResponse(error)) {
-    outputJson(error);
-    process.exit(1);
+    return error;
   }
 
   if (error instanceof Error) {
-    const response: ErrorResponse = {
+    return {
       error: error.message,
       code: "UNKNOWN_ERROR",
     };
-    outputJson(response);
-    process.exit(1);
   }
 
   // Notion API errors
   if (isNotionError(error)) {
-    const response: ErrorResponse = {
+    return {
       error: error.message,
       code: error.code,
     };
-    outputJson(response);
-    process.exit(1);
   }
 
-  const response: ErrorResponse = {
+  return {
     error: String(error),
     code: "UNKNOWN_ERROR",
   };
-  outputJson(response);
-  process.exit(1);
 }
 
 function isErrorResponse(error: unknown): error is ErrorResponse {
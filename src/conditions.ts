@@ -0,0 +1,258 @@
+import type {
+  Condition,
+  ConditionValue,
+  PropertyCondition,
+  PropertyValues,
+} from "./types.ts";
+
+type Scalar = string | number | boolean | null;
+
+function normalizeId(id: string): string {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function plainText(items: unknown): string {
+  return asArray(items)
+    .map((item) => {
+      const record = asRecord(item);
+      if (!record) return "";
+      if (typeof record.plain_text === "string") return record.plain_text;
+      const text = asRecord(record.text);
+      return typeof text?.content === "string" ? text.content : "";
+    })
+    .join("");
+}
+
+function nameOf(value: unknown): string | null {
+  const name = asRecord(value)?.name;
+  return typeof name === "string" ? name : null;
+}
+
+function idOf(value: unknown): string | null {
+  const id = asRecord(value)?.id;
+  return typeof id === "string" ? normalizeId(id) : null;
+}
+
+// Extract a comparable value: arrays for multi-valued types, scalars otherwise
+function extractValue(
+  type: PropertyCondition["type"],
+  property: Record<string, unknown>
+): Scalar | Scalar[] {
+  const raw = property[type];
+
+  switch (type) {
+    case "people":
+    case "relation":
+      return asArray(raw)
+        .map(idOf)
+        .filter((id): id is string => id !== null);
+    case "multi_select":
+      return asArray(raw)
+        .map(nameOf)
+        .filter((name): name is string => name !== null);
+    case "select":
+    case "status":
+      return nameOf(raw);
+    case "checkbox":
+      return typeof raw === "boolean" ? raw : null;
+    case "number":
+      return typeof raw === "number" ? raw : null;
+    case "date": {
+      const start = asRecord(raw)?.start;
+      return typeof start === "string" ? start : null;
+    }
+    case "rich_text":
+    case "title":
+      return plainText(raw);
+    case "formula": {
+      const formula = asRecord(raw);
+      if (!formula || typeof formula.type !== "string") return null;
+      const value = formula[formula.type];
+      if (formula.type === "date") {
+        const start = asRecord(value)?.start;
+        return typeof start === "string" ? start : null;
+      }
+      return typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean"
+        ? value
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function valuesEqual(
+  type: PropertyCondition["type"],
+  actual: Scalar,
+  expected: ConditionValue
+): boolean {
+  if (
+    (type === "people" || type === "relation") &&
+    typeof actual === "string" &&
+    typeof expected === "string"
+  ) {
+    return actual === normalizeId(expected);
+  }
+  return actual === expected;
+}
+
+// Numbers compare numerically; anything else is treated as a date
+function compare(actual: Scalar, expected: ConditionValue): number | null {
+  if (typeof actual === "number" && typeof expected === "number") {
+    return actual - expected;
+  }
+  if (typeof actual === "string" && typeof expected === "string") {
+    const a = Date.parse(actual);
+    const b = Date.parse(expected);
+    if (Number.isNaN(a) || Number.isNaN(b)) return null;
+    return a - b;
+  }
+  return null;
+}
+
+function isEmpty(value: Scalar | Scalar[]): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return value === null || value === "";
+}
+
+function checkPropertyCondition(
+  properties: PropertyValues,
+  condition: PropertyCondition
+): boolean {
+  const property = asRecord(properties[condition.property]);
+  if (!property) {
+    return condition.is_empty === true;
+  }
+  if (typeof property.type === "string" && property.type !== condition.type) {
+    return false;
+  }
+
+  const value = extractValue(condition.type, property);
+  const values = Array.isArray(value) ? value : [value];
+  const matchesAny = (expected: ConditionValue) =>
+    values.some((v) => valuesEqual(condition.type, v, expected));
+
+  // Every operator given on the condition must hold
+  if (condition.equals !== undefined && !matchesAny(condition.equals)) {
+    return false;
+  }
+  if (condition.not_equals !== undefined && matchesAny(condition.not_equals)) {
+    return false;
+  }
+  if (condition.in !== undefined && !condition.in.some(matchesAny)) {
+    return false;
+  }
+  if (condition.contains !== undefined) {
+    const needle = condition.contains;
+    const found = Array.isArray(value)
+      ? matchesAny(needle)
+      : typeof value === "string" && value.includes(needle);
+    if (!found) return false;
+  }
+  if (condition.is_empty !== undefined && isEmpty(value) !== condition.is_empty) {
+    return false;
+  }
+
+  const comparisons: Array<[ConditionValue | undefined, (d: number) => boolean]> = [
+    [condition.greater_than, (d) => d > 0],
+    [condition.greater_than_or_equal_to, (d) => d >= 0],
+    [condition.less_than, (d) => d < 0],
+    [condition.less_than_or_equal_to, (d) => d <= 0],
+  ];
+  for (const [expected, test] of comparisons) {
+    if (expected === undefined) continue;
+    if (Array.isArray(value)) return false;
+    const diff = compare(value, expected);
+    if (diff === null || !test(diff)) return false;
+  }
+
+  return true;
+}
+
+export function evaluateCondition(
+  properties: PropertyValues,
+  condition: Condition
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((c) => evaluateCondition(properties, c));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => evaluateCondition(properties, c));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(properties, condition.not);
+  }
+  return checkPropertyCondition(properties, condition);
+}
+
+// Property conditions of a condition, through all/any/not
+export function flattenCondition(condition: Condition): PropertyCondition[] {
+  if ("all" in condition) {
+    return condition.all.flatMap(flattenCondition);
+  }
+  if ("any" in condition) {
+    return condition.any.flatMap(flattenCondition);
+  }
+  if ("not" in condition) {
+    return flattenCondition(condition.not);
+  }
+  return [condition];
+}
+
+// Values a property condition compares against
+export function conditionValues(condition: PropertyCondition): ConditionValue[] {
+  return [
+    condition.equals,
+    condition.not_equals,
+    condition.contains,
+    ...(condition.in ?? []),
+  ].filter((value): value is ConditionValue => value !== undefined);
+}
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: "must equal",
+  not_equals: "must not equal",
+  in: "must be one of",
+  contains: "must contain",
+  is_empty: "is_empty must be",
+  greater_than: "must be greater than",
+  greater_than_or_equal_to: "must be at least",
+  less_than: "must be less than",
+  less_than_or_equal_to: "must be at most",
+};
+
+// Human-readable form used in PERMISSION_DENIED reasons
+export function describeCondition(condition: Condition): string {
+  if ("all" in condition) {
+    return `(${condition.all.map(describeCondition).join(" and ")})`;
+  }
+  if ("any" in condition) {
+    return `(${condition.any.map(describeCondition).join(" or ")})`;
+  }
+  if ("not" in condition) {
+    return `not ${describeCondition(condition.not)}`;
+  }
+
+  const parts = Object.entries(OPERATOR_LABELS)
+    .filter(([key]) => condition[key as keyof PropertyCondition] !== undefined)
+    .map(([key, label]) => {
+      const value = condition[key as keyof PropertyCondition];
+      const rendered = Array.isArray(value)
+        ? value.map((v) => `'${v}'`).join(", ")
+        : `'${value}'`;
+      return `${condition.property} ${label} ${rendered}`;
+    });
+  return parts.join(" and ");
+}
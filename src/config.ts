@@ -1,42 +1,127 @@
 import { readFileSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { homedir } from "node:os";
-import { join, dirname } from "node:path";
+import { join, dirname, resolve } from "node:path";
 import { parse as parseJsonc } from "jsonc-parser";
 import { ConfigSchema, type Config } from "./types.ts";
+import { findShadowedRules } from "./permissions.ts";
 
 const CONFIG_DIR = join(homedir(), ".config", "safe-notion");
 const CONFIG_PATH = join(CONFIG_DIR, "config.jsonc");
+const PROJECT_CONFIG_NAME = ".safe-notion.jsonc";
+const DEFAULT_TOKEN_ENV = "NOTION_TOKEN";
+
+export type ConfigSource = "flag" | "env" | "project" | "global";
+
+// Set from the global --config / --profile options
+let configPathOverride: string | undefined;
+let profileName: string | undefined;
+
+export function setConfigOptions(options: {
+  path?: string;
+  profile?: string;
+}): void {
+  configPathOverride = options.path;
+  profileName = options.profile;
+}
+
+export function getProfileName(): string | undefined {
+  return profileName;
+}
+
+// Nearest .safe-notion.jsonc from the current directory upwards
+function findProjectConfig(): string | undefined {
+  let dir = process.cwd();
+  while (true) {
+    const candidate = join(dir, PROJECT_CONFIG_NAME);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Precedence: --config, SAFE_NOTION_CONFIG, project-local file, global file
+export function resolveConfigPath(): { path: string; source: ConfigSource } {
+  if (configPathOverride) {
+    return { path: resolve(configPathOverride), source: "flag" };
+  }
+  const envPath = process.env.SAFE_NOTION_CONFIG;
+  if (envPath) {
+    return { path: resolve(envPath), source: "env" };
+  }
+  const projectPath = findProjectConfig();
+  if (projectPath) {
+    return { path: projectPath, source: "project" };
+  }
+  return { path: CONFIG_PATH, source: "global" };
+}
 
 export function getConfigPath(): string {
-  return CONFIG_PATH;
+  return resolveConfigPath().path;
+}
+
+function formatIssues(issues: { path: PropertyKey[]; message: string }[]): string[] {
+  return issues.map((e) => `${e.path.join(".")}: ${e.message}`);
+}
+
+// Overlay the selected profile on the top-level settings
+function applyProfile(config: Config, name: string | undefined): Config {
+  if (!name) {
+    return config;
+  }
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new Error(
+      `Profile not found: ${name}` +
+        (available.length > 0 ? ` (available: ${available.join(", ")})` : "")
+    );
+  }
+
+  return {
+    ...config,
+    rules: profile.rules,
+    defaultPermission: profile.defaultPermission ?? config.defaultPermission,
+    tokenEnv: profile.tokenEnv ?? config.tokenEnv,
+    audit: profile.audit ?? config.audit,
+    users: profile.users ?? config.users,
+    uploads: profile.uploads ?? config.uploads,
+    redaction: profile.redaction ?? config.redaction,
+  };
 }
 
 export function loadConfig(): Config {
-  if (!existsSync(CONFIG_PATH)) {
+  const path = getConfigPath();
+  if (!existsSync(path)) {
     throw new Error(
-      `Config file not found: ${CONFIG_PATH}\nRun 'notion-safe config init' to create a template.`
+      `Config file not found: ${path}\nRun 'notion-safe config init' to create a template.`
     );
   }
 
-  const content = readFileSync(CONFIG_PATH, "utf-8");
+  const content = readFileSync(path, "utf-8");
   const parsed = parseJsonc(content);
 
   const result = ConfigSchema.safeParse(parsed);
   if (!result.success) {
-    const errors = result.error.issues
-      .map((e) => `  - ${e.path.join(".")}: ${e.message}`)
+    const errors = formatIssues(result.error.issues)
+      .map((e) => `  - ${e}`)
       .join("\n");
     throw new Error(`Invalid config file:\n${errors}`);
   }
 
-  return result.data;
+  return applyProfile(result.data, profileName);
 }
 
 export function validateConfig(configPath?: string): {
   valid: boolean;
   errors?: string[];
+  warnings?: string[];
 } {
-  const path = configPath ?? CONFIG_PATH;
+  const path = configPath ?? getConfigPath();
 
   if (!existsSync(path)) {
     return { valid: false, errors: [`Config file not found: ${path}`] };
@@ -48,15 +133,22 @@ export function validateConfig(configPath?: string): {
     const result = ConfigSchema.safeParse(parsed);
 
     if (!result.success) {
-      return {
-        valid: false,
-        errors: result.error.issues.map(
-          (e) => `${e.path.join(".")}: ${e.message}`
-        ),
-      };
+      return { valid: false, errors: formatIssues(result.error.issues) };
     }
 
-    return { valid: true };
+    const config = applyProfile(result.data, profileName);
+    const warnings = findShadowedRules(config);
+    // Check every profile when none is selected
+    if (!profileName) {
+      for (const name of Object.keys(config.profiles ?? {})) {
+        warnings.push(
+          ...findShadowedRules(applyProfile(config, name)).map(
+            (warning) => `profiles.${name}.${warning}`
+          )
+        );
+      }
+    }
+    return warnings.length > 0 ? { valid: true, warnings } : { valid: true };
   } catch (error) {
     return {
       valid: false,
@@ -66,18 +158,23 @@ export function validateConfig(configPath?: string): {
 }
 
 export function initConfig(): string {
-  if (existsSync(CONFIG_PATH)) {
-    throw new Error(`Config file already exists: ${CONFIG_PATH}`);
+  const path = getConfigPath();
+  if (existsSync(path)) {
+    throw new Error(`Config file already exists: ${path}`);
   }
 
   const template = `{
   // Safe Notion - Configuration
-  // Rules are evaluated in order; first matching rule applies
+  // Rules are evaluated in order; first matching rule applies.
+  // Rules with "effect": "deny" always win over allow rules.
   //
   // Permission types (granular format):
-  //   page:read, page:update, page:create
-  //   database:read, database:query, database:create
-  //   block:read, block:append, block:delete
+  //   page:read, page:update, page:create, page:move
+  //   database:read, database:query, database:create (rows)
+  //   database:update, database:schema (structure)
+  //   block:read, block:append, block:update, block:delete
+  //   comment:read, comment:create
+  //   file:upload
   "rules": [
     {
       // Rule name (for logging)
@@ -100,38 +197,75 @@ export function initConfig(): string {
       // Optional: Only allow if this condition is met
       "condition": {
         "property": "Assignee",  // Property name
-        "type": "people",        // Property type: people, select, multi_select, status, checkbox
-        "equals": "user-id"      // Value to match (user ID for people, string for others)
+        "type": "people",        // Property type: people, select, multi_select, status, checkbox,
+                                 //   number, date, rich_text, title, relation, formula
+        "equals": "user-id"      // Value to match (user ID, email, alias or "me" for people)
+        // Other operators: not_equals, in, contains, is_empty, greater_than,
+        //   greater_than_or_equal_to, less_than, less_than_or_equal_to
+        // Combine conditions with { "all": [...] }, { "any": [...] }, { "not": {...} }
       }
     },
+    {
+      "name": "Example - Database with property-level write limits",
+      "databaseId": "66666666-6666-6666-6666-666666666666",
+      "permissions": ["page:read", "database:read", "database:query", "page:update"],
+      // Optional: only these properties may be written
+      "writableProperties": ["Status", "Notes"],
+      // Optional: these properties may never be written
+      "protectedProperties": ["Budget", "Owner"],
+      // Optional: queue these operations for 'approvals approve' instead of executing
+      "approval": { "page:update": "required" }
+    },
     {
       "name": "Example - Database query and create only",
       // Allows querying and creating pages in DB, but NOT updating existing pages
       "databaseId": "33333333-3333-3333-3333-333333333333",
       "permissions": ["database:read", "database:query", "database:create"]
     },
+    {
+      "name": "Example - Deny confidential subpage",
+      // Deny rules override any allow rule, regardless of order
+      "effect": "deny",
+      "pageId": "55555555-5555-5555-5555-555555555555",
+      "permissions": ["page:read", "page:update", "page:move", "block:read", "block:append", "block:update", "block:delete"]
+    },
     {
       "name": "Example - Full access page",
       "pageId": "44444444-4444-4444-4444-444444444444",
-      "permissions": ["page:read", "page:update", "page:create", "database:read", "database:query", "database:create", "block:read", "block:append", "block:delete"]
+      "permissions": ["page:read", "page:update", "page:create", "page:move", "database:read", "database:query", "database:create", "database:update", "database:schema", "block:read", "block:append", "block:update", "block:delete"]
     }
   ],
   // Default behavior when no rule matches: "deny" or "read"
   "defaultPermission": "deny"
+  // Optional: read the token from another environment variable
+  // "tokenEnv": "NOTION_TOKEN",
+  // Optional: named profiles selected with --profile (each with its own rules)
+  // "profiles": { "agent-a": { "tokenEnv": "NOTION_TOKEN_AGENT_A", "rules": [] } },
+  // Optional: append every permission decision to a JSONL audit log
+  // "audit": { "path": "~/.local/state/safe-notion/audit.jsonl" }
+  // Optional: limits for 'file upload'
+  // "uploads": { "maxSizeBytes": 10485760, "allowedMimeTypes": ["image/*", "application/pdf"] }
+  // Optional: withhold data from output
+  // "redaction": { "properties": { "<database-id>": ["Salary"] }, "peopleEmails": true }
 }
 `;
 
-  mkdirSync(dirname(CONFIG_PATH), { recursive: true });
-  writeFileSync(CONFIG_PATH, template, "utf-8");
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, template, "utf-8");
+
+  return path;
+}
 
-  return CONFIG_PATH;
+export function getTokenEnvName(config?: Config): string {
+  return config?.tokenEnv ?? DEFAULT_TOKEN_ENV;
 }
 
-export function getNotionToken(): string {
-  const token = process.env.NOTION_TOKEN;
+export function getNotionToken(config?: Config): string {
+  const envName = getTokenEnvName(config);
+  const token = process.env[envName];
   if (!token) {
     throw new Error(
-      "NOTION_TOKEN environment variable is not set.\n" +
+      `${envName} environment variable is not set.\n` +
         "Get your API token from https://www.notion.so/my-integrations"
     );
   }
@@ -6,7 +6,17 @@ import { createDbCommand } from "./commands/db.ts";
 import { createBlockCommand } from "./commands/block.ts";
 import { createConfigCommand } from "./commands/config.ts";
 import { createSearchCommand } from "./commands/search.ts";
+import { createCommentCommand } from "./commands/comment.ts";
+import { createFileCommand } from "./commands/file.ts";
+import { createMcpCommand } from "./commands/mcp.ts";
+import { createAuditCommand } from "./commands/audit.ts";
+import { createExplainCommand } from "./commands/explain.ts";
+import { createCacheCommand } from "./commands/cache.ts";
+import { createApprovalsCommand } from "./commands/approvals.ts";
+import { createUndoCommand } from "./commands/undo.ts";
 import { setDebugMode } from "./notion-client.ts";
+import { setAuditCommand } from "./audit.ts";
+import { setConfigOptions } from "./config.ts";
 
 const program = new Command();
 
@@ -15,17 +25,38 @@ program
   .description("A safe Notion API wrapper CLI for AI agents")
   .version("0.1.0")
   .option("--debug", "Enable debug output including API warnings")
-  .hook("preAction", () => {
+  .option(
+    "--config <path>",
+    "Path to config file (default: $SAFE_NOTION_CONFIG, nearest .safe-notion.jsonc, then ~/.config/safe-notion/config.jsonc)"
+  )
+  .option("--profile <name>", "Use a named profile from the config file")
+  .hook("preAction", (_thisCommand, actionCommand) => {
     const opts = program.opts();
     if (opts.debug) {
       setDebugMode(true);
     }
+    setConfigOptions({ path: opts.config, profile: opts.profile });
+
+    // Record the full subcommand path (e.g. "page get") in audit entries
+    const names: string[] = [];
+    for (let cmd: Command | null = actionCommand; cmd && cmd !== program; cmd = cmd.parent) {
+      names.unshift(cmd.name());
+    }
+    setAuditCommand(names.join(" "));
   });
 
 program.addCommand(createPageCommand());
 program.addCommand(createDbCommand());
 program.addCommand(createBlockCommand());
 program.addCommand(createConfigCommand());
+program.addCommand(createCommentCommand());
+program.addCommand(createFileCommand());
 program.addCommand(createSearchCommand());
+program.addCommand(createMcpCommand());
+program.addCommand(createAuditCommand());
+program.addCommand(createExplainCommand());
+program.addCommand(createCacheCommand());
+program.addCommand(createApprovalsCommand());
+program.addCommand(createUndoCommand());
 
 program.parse();
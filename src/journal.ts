@@ -0,0 +1,119 @@
+import { randomUUID } from "node:crypto";
+import { readStateFile, writeStateFile } from "./state.ts";
+import type { BlockNode, JournalEntry } from "./types.ts";
+
+// Journal of destructive writes, one file per operation ID
+
+const JOURNAL_DIR = "journal";
+
+function entryFile(id: string): string {
+  return `${JOURNAL_DIR}/${id}.json`;
+}
+
+export function recordJournalEntry(
+  entry: Omit<JournalEntry, "id" | "createdAt">
+): JournalEntry {
+  const journalEntry: JournalEntry = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...entry,
+  };
+  writeStateFile(entryFile(journalEntry.id), journalEntry);
+  return journalEntry;
+}
+
+export function getJournalEntry(id: string): JournalEntry {
+  // Operation IDs are UUIDs; anything else could escape the journal directory
+  const entry = /^[0-9a-f-]+$/i.test(id)
+    ? readStateFile<JournalEntry | null>(entryFile(id), null)
+    : null;
+  if (!entry) {
+    throw { error: `Operation not found: ${id}`, code: "OPERATION_NOT_FOUND" };
+  }
+  return entry;
+}
+
+export function markUndone(entry: JournalEntry): JournalEntry {
+  const updated = { ...entry, undoneAt: new Date().toISOString() };
+  writeStateFile(entryFile(entry.id), updated);
+  return updated;
+}
+
+// Rich text as returned by the API, reduced to what update requests accept
+function toRichTextRequest(items: unknown): unknown[] {
+  return (items as Array<Record<string, unknown>>).map((item) => {
+    const itemType = String(item.type);
+    return {
+      type: itemType,
+      [itemType]: item[itemType],
+      annotations: item.annotations,
+    };
+  });
+}
+
+// Type-specific fields of a block as an update request body
+export function toBlockUpdate(block: BlockNode): Record<string, unknown> {
+  const data = { ...(block[block.type] as Record<string, unknown>) };
+  for (const key of ["rich_text", "caption"]) {
+    if (Array.isArray(data[key])) {
+      data[key] = toRichTextRequest(data[key]);
+    }
+  }
+  return { [block.type]: data };
+}
+
+// Convert property values as returned by the API into update request values.
+// Computed properties (formula, rollup, created_time, ...) are skipped.
+export function toPropertyUpdates(
+  properties: Record<string, unknown>
+): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(properties)) {
+    const property = value as Record<string, unknown> & { type?: string };
+    const type = property.type;
+    if (!type) continue;
+    const raw = property[type];
+
+    switch (type) {
+      case "title":
+      case "rich_text":
+        updates[name] = { [type]: toRichTextRequest(raw) };
+        break;
+      case "select":
+      case "status": {
+        const option = raw as { name: string } | null;
+        updates[name] = { [type]: option ? { name: option.name } : null };
+        break;
+      }
+      case "multi_select":
+        updates[name] = {
+          multi_select: (raw as Array<{ name: string }>).map((option) => ({
+            name: option.name,
+          })),
+        };
+        break;
+      case "people":
+      case "relation":
+        updates[name] = {
+          [type]: (raw as Array<{ id: string }>).map((item) => ({
+            id: item.id,
+          })),
+        };
+        break;
+      case "number":
+      case "checkbox":
+      case "date":
+      case "url":
+      case "email":
+      case "phone_number":
+      case "files":
+        updates[name] = { [type]: raw };
+        break;
+      default:
+        break;
+    }
+  }
+
+  return updates;
+}
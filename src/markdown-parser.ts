@@ -0,0 +1,422 @@
+// Converts Markdown into Notion block objects for page create / block append
+
+// Notion rejects rich text items longer than this
+export const RICH_TEXT_LIMIT = 2000;
+
+type Annotations = {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+};
+
+export interface RichTextItem {
+  type: "text";
+  text: { content: string; link?: { url: string } };
+  annotations?: Annotations;
+}
+
+export type NotionBlock = Record<string, unknown> & { type: string };
+
+const CODE_LANGUAGES = new Set([
+  "abap", "arduino", "bash", "basic", "c", "clojure", "coffeescript", "c++",
+  "c#", "css", "dart", "diff", "docker", "elixir", "elm", "erlang", "flow",
+  "fortran", "f#", "gherkin", "glsl", "go", "graphql", "groovy", "haskell",
+  "html", "java", "javascript", "json", "julia", "kotlin", "latex", "less",
+  "lisp", "livescript", "lua", "makefile", "markdown", "markup", "matlab",
+  "mermaid", "nix", "objective-c", "ocaml", "pascal", "perl", "php",
+  "plain text", "powershell", "prolog", "protobuf", "python", "r", "reason",
+  "ruby", "rust", "sass", "scala", "scheme", "scss", "shell", "sql", "swift",
+  "typescript", "vb.net", "verilog", "vhdl", "visual basic", "webassembly",
+  "xml", "yaml",
+]);
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  rb: "ruby",
+  sh: "shell",
+  zsh: "shell",
+  console: "shell",
+  yml: "yaml",
+  md: "markdown",
+  cpp: "c++",
+  cs: "c#",
+  csharp: "c#",
+  dockerfile: "docker",
+  text: "plain text",
+  txt: "plain text",
+};
+
+function codeLanguage(info: string): string {
+  const name = info.trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+  const language = LANGUAGE_ALIASES[name] ?? name;
+  return CODE_LANGUAGES.has(language) ? language : "plain text";
+}
+
+// Inline formatting
+interface InlineMatch {
+  text: string;
+  annotations: Annotations;
+  link?: string;
+  // Content is literal (no nested formatting)
+  raw?: boolean;
+}
+
+interface InlinePattern {
+  regex: RegExp;
+  apply: (match: RegExpExecArray, annotations: Annotations) => InlineMatch;
+}
+
+const INLINE_PATTERNS: InlinePattern[] = [
+  {
+    regex: /`([^`]+)`/,
+    apply: (m, a) => ({
+      text: m[1] ?? "",
+      annotations: { ...a, code: true },
+      raw: true,
+    }),
+  },
+  {
+    regex: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    apply: (m, a) => ({ text: m[1] ?? "", annotations: a, link: m[2] }),
+  },
+  {
+    regex: /\*\*(.+?)\*\*|__(.+?)__/,
+    apply: (m, a) => ({
+      text: m[1] ?? m[2] ?? "",
+      annotations: { ...a, bold: true },
+    }),
+  },
+  {
+    regex: /~~(.+?)~~/,
+    apply: (m, a) => ({
+      text: m[1] ?? "",
+      annotations: { ...a, strikethrough: true },
+    }),
+  },
+  {
+    regex: /\*(.+?)\*|(?<![\w])_(.+?)_(?![\w])/,
+    apply: (m, a) => ({
+      text: m[1] ?? m[2] ?? "",
+      annotations: { ...a, italic: true },
+    }),
+  },
+];
+
+function pushText(
+  items: RichTextItem[],
+  content: string,
+  annotations: Annotations,
+  link?: string
+): void {
+  // Split long runs so every item stays within Notion's limit
+  for (let i = 0; i < content.length; i += RICH_TEXT_LIMIT) {
+    const item: RichTextItem = {
+      type: "text",
+      text: { content: content.slice(i, i + RICH_TEXT_LIMIT) },
+    };
+    if (link) item.text.link = { url: link };
+    if (Object.keys(annotations).length > 0) item.annotations = annotations;
+    items.push(item);
+  }
+}
+
+function parseInlineInto(
+  items: RichTextItem[],
+  text: string,
+  annotations: Annotations,
+  link?: string
+): void {
+  let rest = text;
+  while (rest.length > 0) {
+    // Pick the earliest match among all inline patterns
+    let best: {
+      index: number;
+      match: RegExpExecArray;
+      pattern: InlinePattern;
+    } | null = null;
+    for (const pattern of INLINE_PATTERNS) {
+      const match = pattern.regex.exec(rest);
+      if (match && (best === null || match.index < best.index)) {
+        best = { index: match.index, match, pattern };
+      }
+    }
+
+    if (!best) {
+      pushText(items, rest, annotations, link);
+      return;
+    }
+
+    if (best.index > 0) {
+      pushText(items, rest.slice(0, best.index), annotations, link);
+    }
+    const inner = best.pattern.apply(best.match, annotations);
+    if (inner.raw) {
+      pushText(items, inner.text, inner.annotations, inner.link ?? link);
+    } else {
+      parseInlineInto(items, inner.text, inner.annotations, inner.link ?? link);
+    }
+    rest = rest.slice(best.index + best.match[0].length);
+  }
+}
+
+export function parseInline(text: string): RichTextItem[] {
+  const items: RichTextItem[] = [];
+  parseInlineInto(items, text, {});
+  return items;
+}
+
+function plainRichText(text: string): RichTextItem[] {
+  const items: RichTextItem[] = [];
+  pushText(items, text, {});
+  return items;
+}
+
+function block(type: string, data: Record<string, unknown>): NotionBlock {
+  return { object: "block", type, [type]: data };
+}
+
+// Block-level parsing
+interface ListLine {
+  indent: number;
+  block: NotionBlock;
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const FENCE = /^\s*(```|~~~)(.*)$/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/;
+const DIVIDER = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const IMAGE = /^\s*!\[([^\]]*)\]\(([^)\s]+)\)\s*$/;
+const QUOTE = /^\s*>/;
+
+function isTableStart(lines: string[], i: number): boolean {
+  return (
+    (lines[i] ?? "").includes("|") && TABLE_SEPARATOR.test(lines[i + 1] ?? "")
+  );
+}
+
+// Lines that end a paragraph because they start another block
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i] ?? "";
+  return (
+    !line.trim() ||
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    DIVIDER.test(line) ||
+    IMAGE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, i)
+  );
+}
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+function listBlock(match: RegExpExecArray): NotionBlock {
+  const marker = match[2] ?? "-";
+  const checkbox = match[3];
+  const rich_text = parseInline(match[4] ?? "");
+
+  if (checkbox) {
+    return block("to_do", {
+      rich_text,
+      checked: checkbox.toLowerCase().startsWith("[x"),
+    });
+  }
+  return /\d/.test(marker)
+    ? block("numbered_list_item", { rich_text })
+    : block("bulleted_list_item", { rich_text });
+}
+
+// Nest list items by indentation
+function buildListTree(lines: ListLine[]): NotionBlock[] {
+  const roots: NotionBlock[] = [];
+  const stack: ListLine[] = [];
+
+  for (const line of lines) {
+    while (
+      stack.length > 0 &&
+      (stack[stack.length - 1]?.indent ?? 0) >= line.indent
+    ) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      const data = parent.block[parent.block.type] as Record<string, unknown>;
+      const children = (data.children as NotionBlock[] | undefined) ?? [];
+      children.push(line.block);
+      data.children = children;
+    } else {
+      roots.push(line.block);
+    }
+    stack.push(line);
+  }
+
+  return roots;
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+export function markdownToBlocks(markdown: string): NotionBlock[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: NotionBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i] ?? "";
+
+    // Blank line
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1] ?? "```";
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i] ?? "").trim().startsWith(marker)) {
+        body.push(lines[i] ?? "");
+        i++;
+      }
+      i++; // closing fence
+      blocks.push(
+        block("code", {
+          rich_text: plainRichText(body.join("\n")),
+          language: codeLanguage(fence[2] ?? ""),
+        })
+      );
+      continue;
+    }
+
+    // Heading
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min((heading[1] ?? "#").length, 3);
+      blocks.push(
+        block(`heading_${level}`, { rich_text: parseInline(heading[2] ?? "") })
+      );
+      i++;
+      continue;
+    }
+
+    // Divider
+    if (DIVIDER.test(line)) {
+      blocks.push(block("divider", {}));
+      i++;
+      continue;
+    }
+
+    // Standalone image
+    const image = IMAGE.exec(line);
+    if (image) {
+      blocks.push(
+        block("image", {
+          type: "external",
+          external: { url: image[2] },
+          caption: image[1] ? parseInline(image[1]) : [],
+        })
+      );
+      i++;
+      continue;
+    }
+
+    // Table (header row followed by a separator row)
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [header];
+      i += 2;
+      while (i < lines.length) {
+        const current = lines[i] ?? "";
+        if (!current.trim() || !current.includes("|")) break;
+        rows.push(splitTableRow(current));
+        i++;
+      }
+      const width = header.length;
+      blocks.push(
+        block("table", {
+          table_width: width,
+          has_column_header: true,
+          has_row_header: false,
+          children: rows.map((cells) =>
+            block("table_row", {
+              cells: Array.from({ length: width }, (_, c) =>
+                parseInline(cells[c] ?? "")
+              ),
+            })
+          ),
+        })
+      );
+      continue;
+    }
+
+    // Block quote
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i] ?? "")) {
+        body.push((lines[i] ?? "").replace(/^\s*>\s?/, ""));
+        i++;
+      }
+      blocks.push(block("quote", { rich_text: parseInline(body.join("\n")) }));
+      continue;
+    }
+
+    // List (bulleted, numbered, to-do), nested by indentation
+    if (LIST_ITEM.test(line)) {
+      const items: ListLine[] = [];
+      while (i < lines.length) {
+        const current = lines[i] ?? "";
+        const match = LIST_ITEM.exec(current);
+        if (match) {
+          items.push({
+            indent: indentWidth(match[1] ?? ""),
+            block: listBlock(match),
+          });
+          i++;
+          continue;
+        }
+        // Indented continuation line of the previous item
+        const previous = items[items.length - 1];
+        if (previous && current.trim() && /^\s+/.test(current)) {
+          const data = previous.block[previous.block.type] as {
+            rich_text: RichTextItem[];
+          };
+          data.rich_text.push(...parseInline(" " + current.trim()));
+          i++;
+          continue;
+        }
+        break;
+      }
+      blocks.push(...buildListTree(items));
+      continue;
+    }
+
+    // Paragraph: consecutive plain lines. The first line is always consumed,
+    // so the loop advances even if no other block claimed it.
+    const body: string[] = [(lines[i] ?? "").trim()];
+    i++;
+    while (i < lines.length && !startsBlock(lines, i)) {
+      body.push((lines[i] ?? "").trim());
+      i++;
+    }
+    blocks.push(block("paragraph", { rich_text: parseInline(body.join(" ")) }));
+  }
+
+  return blocks;
+}
@@ -0,0 +1,295 @@
+import type { BlockNode, PageContent } from "./types.ts";
+
+type Json = Record<string, unknown>;
+
+function asRecord(value: unknown): Json {
+  return typeof value === "object" && value !== null ? (value as Json) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, "")}`;
+}
+
+function fileUrl(file: Json): string {
+  const external = asRecord(file.external);
+  const hosted = asRecord(file.file);
+  return String(external.url ?? hosted.url ?? "");
+}
+
+// Rich text
+export function renderRichText(richText: unknown): string {
+  return asArray(richText)
+    .map((item) => {
+      const text = asRecord(item);
+      const annotations = asRecord(text.annotations);
+      let content = String(text.plain_text ?? "");
+      if (!content) return "";
+
+      if (text.type === "equation") {
+        return `$${content}$`;
+      }
+      if (annotations.code) content = `\`${content}\``;
+      if (annotations.bold) content = `**${content}**`;
+      if (annotations.italic) content = `*${content}*`;
+      if (annotations.strikethrough) content = `~~${content}~~`;
+      if (typeof text.href === "string") content = `[${content}](${text.href})`;
+      return content;
+    })
+    .join("");
+}
+
+function plainText(richText: unknown): string {
+  return asArray(richText)
+    .map((item) => String(asRecord(item).plain_text ?? ""))
+    .join("");
+}
+
+// Properties
+export function getPageTitle(page: Json): string {
+  for (const property of Object.values(asRecord(page.properties))) {
+    const value = asRecord(property);
+    if (value.type === "title") {
+      return plainText(value.title);
+    }
+  }
+  return "Untitled";
+}
+
+function renderPropertyValue(property: Json): string {
+  const value = property[String(property.type)];
+  if (property.redacted === true && value === undefined) {
+    return "[REDACTED]";
+  }
+
+  switch (property.type) {
+    case "title":
+    case "rich_text":
+      return renderRichText(value);
+    case "select":
+    case "status":
+      return String(asRecord(value).name ?? "");
+    case "multi_select":
+      return asArray(value)
+        .map((option) => String(asRecord(option).name ?? ""))
+        .join(", ");
+    case "people":
+      return asArray(value)
+        .map((user) => {
+          const u = asRecord(user);
+          return String(u.name ?? u.id ?? "");
+        })
+        .join(", ");
+    case "relation":
+      return asArray(value)
+        .map((page) => String(asRecord(page).id ?? ""))
+        .join(", ");
+    case "date": {
+      const date = asRecord(value);
+      if (!date.start) return "";
+      return date.end ? `${date.start} → ${date.end}` : String(date.start);
+    }
+    case "checkbox":
+      return value ? "[x]" : "[ ]";
+    case "files":
+      return asArray(value)
+        .map((file) => {
+          const f = asRecord(file);
+          return `[${f.name ?? "file"}](${fileUrl(f)})`;
+        })
+        .join(", ");
+    case "formula": {
+      const formula = asRecord(value);
+      const result = formula[String(formula.type)];
+      if (formula.type === "date") {
+        return String(asRecord(result).start ?? "");
+      }
+      return result === null || result === undefined ? "" : String(result);
+    }
+    case "created_by":
+    case "last_edited_by": {
+      const user = asRecord(value);
+      return String(user.name ?? user.id ?? "");
+    }
+    default:
+      if (value === null || value === undefined) return "";
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
+
+export function renderProperties(page: Json): string {
+  const lines: string[] = [];
+  for (const [name, property] of Object.entries(asRecord(page.properties))) {
+    const value = asRecord(property);
+    if (value.type === "title") continue;
+    lines.push(`- **${name}**: ${renderPropertyValue(value)}`);
+  }
+  return lines.join("\n");
+}
+
+// Blocks
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? prefix + line : line))
+    .join("\n");
+}
+
+function quote(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function renderTable(block: BlockNode): string {
+  const table = asRecord(block.table);
+  const rows = (block.children ?? []).map((row) =>
+    asArray(asRecord(row.table_row).cells).map((cell) =>
+      renderRichText(cell).replace(/\|/g, "\\|")
+    )
+  );
+  if (rows.length === 0) return "";
+
+  const width = Number(table.table_width ?? rows[0]?.length ?? 0);
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  const separator = `| ${Array.from({ length: width }, () => "---").join(" | ")} |`;
+
+  // Markdown tables need a header row; use an empty one if Notion has none
+  const [first, ...rest] = rows;
+  const header = table.has_column_header ? first ?? [] : [];
+  const body = table.has_column_header ? rest : rows;
+  return [line(header), separator, ...body.map(line)].join("\n");
+}
+
+function isListType(type?: string): boolean {
+  return (
+    type === "bulleted_list_item" ||
+    type === "numbered_list_item" ||
+    type === "to_do"
+  );
+}
+
+function renderBlock(block: BlockNode, listIndex: number): string {
+  const data = asRecord(block[block.type]);
+  const text = renderRichText(data.rich_text);
+  const children = block.children ? renderBlocks(block.children) : "";
+  const withheld = block.withheld
+    ? "<!-- withheld: block:read not permitted -->"
+    : "";
+  const nested = [children, withheld].filter(Boolean).join("\n\n");
+
+  switch (block.type) {
+    case "paragraph":
+      return [text, nested].filter(Boolean).join("\n\n");
+    case "heading_1":
+    case "heading_2":
+    case "heading_3": {
+      const level = "#".repeat(Number(block.type.slice(-1)));
+      return [`${level} ${text}`, nested].filter(Boolean).join("\n\n");
+    }
+    case "bulleted_list_item":
+    case "numbered_list_item":
+    case "to_do": {
+      let marker = "- ";
+      if (block.type === "numbered_list_item") marker = `${listIndex}. `;
+      if (block.type === "to_do") marker = data.checked ? "- [x] " : "- [ ] ";
+      const pad = " ".repeat(marker.length);
+      return nested
+        ? `${marker}${text}\n${indent(nested, pad)}`
+        : `${marker}${text}`;
+    }
+    case "toggle":
+      return `<details>\n<summary>${text}</summary>\n\n${nested}\n</details>`;
+    case "code": {
+      const language =
+        data.language === "plain text" ? "" : String(data.language ?? "");
+      return `\`\`\`${language}\n${plainText(data.rich_text)}\n\`\`\``;
+    }
+    case "quote":
+      return quote([text, nested].filter(Boolean).join("\n\n"));
+    case "callout": {
+      const icon = asRecord(data.icon);
+      const emoji = icon.type === "emoji" ? `${icon.emoji} ` : "";
+      return quote([`${emoji}${text}`, nested].filter(Boolean).join("\n\n"));
+    }
+    case "divider":
+      return "---";
+    case "equation":
+      return `$$\n${data.expression ?? ""}\n$$`;
+    case "table":
+      return [renderTable(block), withheld].filter(Boolean).join("\n\n");
+    case "image": {
+      const caption = plainText(data.caption);
+      return `![${caption}](${fileUrl(data)})`;
+    }
+    case "file":
+    case "pdf":
+    case "video":
+    case "audio": {
+      const name = plainText(data.caption) || String(data.name ?? block.type);
+      return `[${name}](${fileUrl(data)})`;
+    }
+    case "bookmark":
+    case "embed":
+    case "link_preview": {
+      const caption = plainText(data.caption);
+      return `[${caption || data.url}](${data.url})`;
+    }
+    case "child_page":
+      return `[${data.title ?? "Untitled"}](${notionUrl(block.id)})`;
+    case "child_database":
+      return `[${data.title ?? "Untitled database"}](${notionUrl(block.id)})`;
+    case "column_list":
+    case "column":
+    case "synced_block":
+      return nested;
+    case "table_of_contents":
+    case "breadcrumb":
+      return "";
+    default:
+      return `<!-- unsupported block: ${block.type} -->`;
+  }
+}
+
+export function renderBlocks(blocks: BlockNode[]): string {
+  const parts: string[] = [];
+  let listIndex = 0;
+  let previousType: string | undefined;
+
+  for (const block of blocks) {
+    listIndex = block.type === "numbered_list_item" ? listIndex + 1 : 0;
+    const rendered = renderBlock(block, listIndex);
+    if (!rendered) continue;
+
+    // Consecutive list items stay together; everything else is a paragraph
+    if (parts.length > 0) {
+      const tight = isListType(block.type) && isListType(previousType);
+      parts.push(tight ? "\n" : "\n\n");
+    }
+    parts.push(rendered);
+    previousType = block.type;
+  }
+
+  return parts.join("");
+}
+
+export function renderPage(content: PageContent): string {
+  const sections = [`# ${getPageTitle(content.page)}`];
+
+  const properties = renderProperties(content.page);
+  if (properties) sections.push(properties);
+
+  if (content.withheld) {
+    sections.push("<!-- withheld: block:read not permitted -->");
+  } else {
+    const body = renderBlocks(content.blocks);
+    if (body) sections.push(body);
+  }
+
+  return sections.join("\n\n") + "\n";
+}
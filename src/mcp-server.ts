@@ -0,0 +1,440 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { z } from "zod";
+import {
+  getClient,
+  DEFAULT_DUMP_DEPTH,
+  type NotionSafeClient,
+  type SearchParams,
+  type SearchStats,
+  type RichTextRequest,
+} from "./notion-client.ts";
+import { isOperationConfigured } from "./permissions.ts";
+import { toErrorResponse } from "./commands/utils.ts";
+import { setAuditCommand } from "./audit.ts";
+import { renderPage } from "./markdown.ts";
+import { redact } from "./redaction.ts";
+import { markdownToBlocks, parseInline } from "./markdown-parser.ts";
+import {
+  PageGetInputSchema,
+  PageReadInputSchema,
+  PageDumpInputSchema,
+  PageCreateInputSchema,
+  PageUpdateInputSchema,
+  PageMoveInputSchema,
+  DatabaseGetInputSchema,
+  DatabaseQueryInputSchema,
+  DatabaseCreatePageInputSchema,
+  DatabaseCreateInputSchema,
+  DatabaseUpdateSchemaInputSchema,
+  BlockGetInputSchema,
+  BlockChildrenInputSchema,
+  BlockAppendInputSchema,
+  BlockUpdateInputSchema,
+  BlockDeleteInputSchema,
+  CommentListInputSchema,
+  CommentCreateInputSchema,
+  FileUploadInputSchema,
+  SearchInputSchema,
+  type Config,
+  type Permission,
+} from "./types.ts";
+
+interface ToolDefinition<S extends z.ZodObject = z.ZodObject> {
+  name: string;
+  description: string;
+  // Tool is advertised if the config could grant any of these
+  permissions: Permission[];
+  inputSchema: S;
+  handler: (client: NotionSafeClient, args: z.infer<S>) => Promise<unknown>;
+}
+
+async function collect(
+  items: AsyncIterable<unknown>,
+  summary: object = {}
+): Promise<unknown> {
+  const results: unknown[] = [];
+  for await (const item of items) {
+    results.push(item);
+  }
+  return { object: "list", results, ...summary };
+}
+
+function defineTool<S extends z.ZodObject>(
+  tool: ToolDefinition<S>
+): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+const tools: ToolDefinition[] = [
+  // Page operations
+  defineTool({
+    name: "page_get",
+    description: "Get a Notion page by ID",
+    permissions: ["page:read"],
+    inputSchema: PageGetInputSchema,
+    handler: (client, args) => client.getPage(args.pageId),
+  }),
+  defineTool({
+    name: "page_read",
+    description:
+      "Read a page's title, properties and full content as Markdown",
+    permissions: ["page:read"],
+    inputSchema: PageReadInputSchema,
+    handler: async (client, args) =>
+      renderPage(redact(await client.readPage(args.pageId))),
+  }),
+  defineTool({
+    name: "page_dump",
+    description:
+      "Dump a page, its block tree and child pages as nested JSON; unreadable subtrees are marked as withheld",
+    permissions: ["page:read"],
+    inputSchema: PageDumpInputSchema,
+    handler: (client, args) =>
+      client.readPage(args.pageId, {
+        maxDepth: args.depth ?? DEFAULT_DUMP_DEPTH,
+        includeChildPages: true,
+      }),
+  }),
+  defineTool({
+    name: "page_create",
+    description: "Create a new page under a parent page",
+    permissions: ["page:create"],
+    inputSchema: PageCreateInputSchema,
+    handler: (client, args) => {
+      const params: {
+        parent: { page_id: string };
+        properties: Record<string, unknown>;
+        icon?: { emoji: string };
+        children?: unknown[];
+      } = {
+        parent: { page_id: args.parentId },
+        properties: {
+          title: {
+            title: [{ text: { content: args.title } }],
+          },
+        },
+      };
+
+      if (args.icon) {
+        params.icon = { emoji: args.icon };
+      }
+
+      if (args.content && args.markdown) {
+        throw {
+          error: "content and markdown cannot be used together",
+          code: "INVALID_ARGUMENT",
+        };
+      }
+
+      if (args.content) {
+        params.children = args.content;
+      }
+
+      if (args.markdown) {
+        params.children = markdownToBlocks(args.markdown);
+      }
+
+      return client.createPage(
+        params as Parameters<NotionSafeClient["createPage"]>[0]
+      );
+    },
+  }),
+  defineTool({
+    name: "page_update",
+    description: "Update properties of a Notion page",
+    permissions: ["page:update"],
+    inputSchema: PageUpdateInputSchema,
+    handler: (client, args) =>
+      client.updatePage(
+        args.pageId,
+        args.properties as Parameters<NotionSafeClient["updatePage"]>[1]
+      ),
+  }),
+  defineTool({
+    name: "page_move",
+    description:
+      "Move a page under another page or into a database (needs page:move on the page and page:create on the destination)",
+    permissions: ["page:move"],
+    inputSchema: PageMoveInputSchema,
+    handler: (client, args) => client.movePage(args.pageId, args.parentId),
+  }),
+
+  // Database operations
+  defineTool({
+    name: "db_get",
+    description: "Get a Notion database by ID",
+    permissions: ["database:read"],
+    inputSchema: DatabaseGetInputSchema,
+    handler: (client, args) => client.getDatabase(args.databaseId),
+  }),
+  defineTool({
+    name: "db_sources",
+    description: "List the data sources of a Notion database",
+    permissions: ["database:read"],
+    inputSchema: DatabaseGetInputSchema,
+    handler: (client, args) => client.listDataSources(args.databaseId),
+  }),
+  defineTool({
+    name: "db_query",
+    description: "Query a Notion database",
+    permissions: ["database:query"],
+    inputSchema: DatabaseQueryInputSchema,
+    handler: (client, args) => {
+      const params = {
+        filter: args.filter,
+        sorts: args.sorts,
+        start_cursor: args.startCursor,
+        page_size: args.pageSize,
+      };
+      if (args.all || args.limit) {
+        return collect(
+          client.iterateDatabaseQuery(
+            args.databaseId,
+            params,
+            args.limit,
+            args.dataSourceId
+          )
+        );
+      }
+      return client.queryDatabase(args.databaseId, params, args.dataSourceId);
+    },
+  }),
+  defineTool({
+    name: "db_create_page",
+    description: "Create a new page in a Notion database",
+    permissions: ["database:create"],
+    inputSchema: DatabaseCreatePageInputSchema,
+    handler: (client, args) =>
+      client.createDatabasePage(
+        args.databaseId,
+        args.properties as Parameters<NotionSafeClient["createDatabasePage"]>[1],
+        args.dataSourceId
+      ),
+  }),
+  defineTool({
+    name: "db_create",
+    description: "Create a database under a page",
+    permissions: ["database:schema"],
+    inputSchema: DatabaseCreateInputSchema,
+    handler: (client, args) =>
+      client.createDatabase(args.parentId, args.title, args.properties),
+  }),
+  defineTool({
+    name: "db_update_schema",
+    description:
+      "Change a database schema: add, rename or remove a property, or edit select/status options",
+    permissions: ["database:update", "database:schema"],
+    inputSchema: DatabaseUpdateSchemaInputSchema,
+    handler: (client, args) =>
+      client.updateDatabaseSchema(
+        args.databaseId,
+        args.change,
+        args.dataSourceId
+      ),
+  }),
+
+  // Block operations
+  defineTool({
+    name: "block_get",
+    description: "Get a Notion block by ID",
+    permissions: ["block:read"],
+    inputSchema: BlockGetInputSchema,
+    handler: (client, args) => client.getBlock(args.blockId),
+  }),
+  defineTool({
+    name: "block_children",
+    description: "Get children of a block or page",
+    permissions: ["block:read"],
+    inputSchema: BlockChildrenInputSchema,
+    handler: (client, args) => {
+      if (args.all || args.limit) {
+        return collect(
+          client.iterateBlockChildren(args.blockId, args.limit, args.startCursor)
+        );
+      }
+      return client.getBlockChildren(
+        args.blockId,
+        args.startCursor,
+        args.pageSize
+      );
+    },
+  }),
+  defineTool({
+    name: "block_append",
+    description: "Append child blocks to a block or page",
+    permissions: ["block:append"],
+    inputSchema: BlockAppendInputSchema,
+    handler: (client, args) => {
+      if (Boolean(args.children) === Boolean(args.markdown)) {
+        throw {
+          error: "Specify exactly one of children or markdown",
+          code: "INVALID_ARGUMENT",
+        };
+      }
+      const children = args.markdown
+        ? markdownToBlocks(args.markdown)
+        : args.children;
+      return client.appendBlockChildren(
+        args.blockId,
+        children as Parameters<NotionSafeClient["appendBlockChildren"]>[1]
+      );
+    },
+  }),
+  defineTool({
+    name: "block_update",
+    description:
+      "Update a block in place, e.g. fix its text or toggle a to-do; the block type cannot change",
+    permissions: ["block:update"],
+    inputSchema: BlockUpdateInputSchema,
+    handler: (client, args) => {
+      if (Boolean(args.content) === (args.markdown !== undefined)) {
+        throw {
+          error: "Specify exactly one of content or markdown",
+          code: "INVALID_ARGUMENT",
+        };
+      }
+      return client.updateBlock(
+        args.blockId,
+        args.markdown !== undefined
+          ? { markdown: args.markdown }
+          : { data: args.content ?? {} }
+      );
+    },
+  }),
+  defineTool({
+    name: "block_delete",
+    description: "Delete a block",
+    permissions: ["block:delete"],
+    inputSchema: BlockDeleteInputSchema,
+    handler: (client, args) => client.deleteBlock(args.blockId),
+  }),
+
+  // Comment operations
+  defineTool({
+    name: "comment_list",
+    description: "List open comments on a page or block",
+    permissions: ["comment:read"],
+    inputSchema: CommentListInputSchema,
+    handler: (client, args) => {
+      if (args.all || args.limit) {
+        return collect(
+          client.iterateComments(args.blockId, args.limit, args.startCursor)
+        );
+      }
+      return client.listComments(args.blockId, args.startCursor, args.pageSize);
+    },
+  }),
+  defineTool({
+    name: "comment_create",
+    description:
+      "Leave a comment on a page or block, or reply in one of its discussion threads",
+    permissions: ["comment:create"],
+    inputSchema: CommentCreateInputSchema,
+    handler: (client, args) =>
+      client.createComment(
+        args.targetId,
+        parseInline(args.text) as RichTextRequest,
+        args.discussionId
+      ),
+  }),
+
+  // File operations
+  defineTool({
+    name: "file_upload",
+    description:
+      "Upload a local file and attach it to a page or block (as an image/PDF/file block or a files property)",
+    permissions: ["file:upload"],
+    inputSchema: FileUploadInputSchema,
+    handler: (client, args) =>
+      client.uploadFile(args.path, args.targetId, {
+        property: args.property,
+        name: args.name,
+      }),
+  }),
+
+  // Search operations
+  defineTool({
+    name: "search",
+    description: "Search pages and databases",
+    permissions: ["page:read", "database:read", "block:read"],
+    inputSchema: SearchInputSchema,
+    handler: (client, args) => {
+      const params: SearchParams = {
+        query: args.query,
+        filter: args.filter
+          ? {
+              property: "object",
+              // SDK 5.x uses "data_source" instead of "database"
+              value: args.filter === "database" ? "data_source" : "page",
+            }
+          : undefined,
+        sort: args.sort
+          ? { direction: args.sort, timestamp: "last_edited_time" }
+          : undefined,
+        start_cursor: args.startCursor,
+        page_size: args.pageSize,
+      };
+      if (args.all || args.limit) {
+        const stats: SearchStats = { withheld_count: 0 };
+        return collect(client.iterateSearch(params, args.limit, stats), stats);
+      }
+      return client.search(params);
+    },
+  }),
+];
+
+// Tools whose permissions no rule (or default) could ever grant are hidden
+export function getAvailableTools(config: Config): ToolDefinition[] {
+  return tools.filter((tool) =>
+    tool.permissions.some((permission) =>
+      isOperationConfigured(config, permission)
+    )
+  );
+}
+
+export function createMcpServer(client: NotionSafeClient): McpServer {
+  const server = new McpServer({ name: "safe-notion", version: "0.2.0" });
+
+  for (const tool of getAvailableTools(client.getConfig())) {
+    server.registerTool(
+      tool.name,
+      {
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+      },
+      async (args): Promise<CallToolResult> => {
+        setAuditCommand(`mcp ${tool.name}`);
+        try {
+          const result = await tool.handler(client, args);
+          // Rendered documents (e.g. Markdown) are redacted before rendering
+          const text =
+            typeof result === "string"
+              ? result
+              : JSON.stringify(redact(result), null, 2);
+          return {
+            content: [{ type: "text", text }],
+          };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(toErrorResponse(error), null, 2),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  return server;
+}
+
+export async function startMcpServer(): Promise<void> {
+  const server = createMcpServer(getClient());
+  await server.connect(new StdioServerTransport());
+}
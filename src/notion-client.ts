@@ -1,8 +1,58 @@
 import { Client } from "@notionhq/client";
+import { readFileSync } from "node:fs";
 import { LogLevel } from "@notionhq/client/build/src/logging";
 import { loadConfig, getNotionToken } from "./config.ts";
-import { checkPermission, clearCache } from "./permissions.ts";
-import type { Config, ErrorResponse, OperationType } from "./types.ts";
+import {
+  checkPermission,
+  explainPermission,
+  findForbiddenProperty,
+  requiresApproval,
+  recordParent,
+  invalidateParent,
+  getParentId,
+  normalizePropertyKeys,
+  setParentCacheScope,
+  clearCache,
+} from "./permissions.ts";
+import { recordDecision, getAuditCommand } from "./audit.ts";
+import { setRedaction } from "./redaction.ts";
+import {
+  createApproval,
+  getPendingApproval,
+  decideApproval,
+} from "./approvals.ts";
+import { consumeQuota } from "./quota.ts";
+import {
+  recordJournalEntry,
+  getJournalEntry,
+  markUndone,
+  toPropertyUpdates,
+  toBlockUpdate,
+} from "./journal.ts";
+import { markdownToBlocks } from "./markdown-parser.ts";
+import { flattenCondition, conditionValues } from "./conditions.ts";
+import {
+  inspectFile,
+  checkUploadLimits,
+  blockTypeFor,
+  SINGLE_PART_MAX_BYTES,
+  PART_SIZE_BYTES,
+  type LocalFile,
+} from "./uploads.ts";
+import type {
+  Approval,
+  ApprovalRequest,
+  Config,
+  ErrorResponse,
+  OperationType,
+  PermissionTrace,
+  PropertyValues,
+  BlockNode,
+  PageContent,
+  JournalEntry,
+  SchemaChange,
+  Rule,
+} from "./types.ts";
 
 // Debug mode flag
 let debugMode = false;
@@ -19,6 +69,83 @@ type UpdatePageParams = Parameters<Client["pages"]["update"]>[0];
 type AppendBlockChildrenParams = Parameters<
   Client["blocks"]["children"]["append"]
 >[0];
+type UpdateBlockParams = Parameters<Client["blocks"]["update"]>[0];
+type UpdateDataSourceParams = Parameters<Client["dataSources"]["update"]>[0];
+type InitialProperties = NonNullable<
+  Parameters<Client["databases"]["create"]>[0]["initial_data_source"]
+>["properties"];
+export type RichTextRequest = Extract<
+  Parameters<Client["comments"]["create"]>[0],
+  { rich_text: unknown }
+>["rich_text"];
+
+const ANCESTOR_READ_OPERATIONS: OperationType[] = [
+  "page:read",
+  "block:read",
+  "database:read",
+];
+
+// Default depth for recursive page dumps
+export const DEFAULT_DUMP_DEPTH = 3;
+
+// Notion's limit on blocks per create/append request
+const MAX_BLOCKS_PER_REQUEST = 100;
+// Levels of nested children below the top-level blocks of such a request
+const MAX_NESTING_PER_REQUEST = 1;
+
+interface EnsurePermissionOptions {
+  pageIdForCondition?: string;
+  proposedProperties?: PropertyValues;
+  // Request body, hashed into the audit log
+  payload?: unknown;
+  // The call itself, queued when the rule requires approval
+  request?: ApprovalRequest;
+  // Description of a schema change that loses data
+  destructiveChange?: string;
+  // Writes the operation performs, counted against quotas (default 1)
+  writeCount?: number;
+}
+
+// Update body with type-specific fields, or Markdown for a single block
+export type BlockContent =
+  | { data: Record<string, unknown> }
+  | { markdown: string };
+
+interface BlockTreeOptions {
+  // Levels of nested blocks to fetch (top-level blocks are depth 1)
+  maxDepth?: number;
+  // Descend into child pages instead of only linking them
+  includeChildPages?: boolean;
+}
+
+export interface UploadOptions {
+  // Files property of the target page to set instead of appending a block
+  property?: string;
+  // File name shown in Notion (default: the local file name)
+  name?: string;
+}
+
+export interface SearchParams {
+  query?: string;
+  filter?: { property: "object"; value: "page" | "data_source" };
+  sort?: {
+    direction: "ascending" | "descending";
+    timestamp: "last_edited_time";
+  };
+  start_cursor?: string;
+  page_size?: number;
+}
+
+interface SearchResult {
+  results: unknown[];
+  next_cursor: string | null;
+  withheld_count: number;
+}
+
+// Totals kept while auto-paginating a search
+export interface SearchStats {
+  withheld_count: number;
+}
 
 interface QueryParams {
   filter?: unknown;
@@ -30,28 +157,39 @@ interface QueryParams {
 export class NotionSafeClient {
   private client: Client;
   private config: Config;
+  // Set while replaying an approved request
+  private executingApproval = false;
 
   constructor() {
-    const token = getNotionToken();
+    this.config = loadConfig();
+    setRedaction(this.config.redaction);
+    setParentCacheScope(this.config);
+    const token = getNotionToken(this.config);
     this.client = new Client({
       auth: token,
       logLevel: debugMode ? LogLevel.WARN : LogLevel.ERROR,
     });
-    this.config = loadConfig();
+  }
+
+  getConfig(): Config {
+    return this.config;
   }
 
   private async ensurePermission(
     resourceId: string,
     operation: OperationType,
-    pageIdForCondition?: string
+    options: EnsurePermissionOptions = {}
   ): Promise<void> {
+    const { payload, request, destructiveChange, writeCount, ...checkOptions } =
+      options;
     const result = await checkPermission(
       this.client,
       this.config,
       resourceId,
       operation,
-      pageIdForCondition
+      checkOptions
     );
+    recordDecision(this.config, operation, resourceId, result, payload);
 
     if (!result.allowed) {
       const error: ErrorResponse = {
@@ -60,6 +198,126 @@ export class NotionSafeClient {
       };
       throw error;
     }
+
+    // Property-level restrictions of the granting rule
+    if (result.rule && checkOptions.proposedProperties) {
+      const property = findForbiddenProperty(
+        result.rule,
+        Object.keys(checkOptions.proposedProperties)
+      );
+      if (property !== undefined) {
+        const reason = `Property '${property}' may not be written under rule '${result.rule.name}'`;
+        recordDecision(
+          this.config,
+          operation,
+          resourceId,
+          { allowed: false, rule: result.rule, reason },
+          payload
+        );
+        const error: ErrorResponse = {
+          error: reason,
+          code: "PROPERTY_NOT_ALLOWED",
+        };
+        throw error;
+      }
+    }
+
+    if (destructiveChange && result.rule?.forbidDestructiveSchemaChanges) {
+      const reason = `Destructive schema change (${destructiveChange}) is forbidden by rule '${result.rule.name}'`;
+      recordDecision(
+        this.config,
+        operation,
+        resourceId,
+        { allowed: false, rule: result.rule, reason },
+        payload
+      );
+      const error: ErrorResponse = {
+        error: reason,
+        code: "DESTRUCTIVE_SCHEMA_CHANGE",
+      };
+      throw error;
+    }
+
+    // Operations that need a human decision are queued instead of executed
+    if (
+      result.rule &&
+      request &&
+      !this.executingApproval &&
+      requiresApproval(result.rule, operation)
+    ) {
+      const approval = createApproval({
+        command: getAuditCommand(),
+        operation,
+        resourceId,
+        rule: result.rule.name,
+        request,
+      });
+      const error: ErrorResponse = {
+        error: `Operation ${operation} requires approval under rule '${result.rule.name}' and was queued for review`,
+        code: "PENDING_APPROVAL",
+        approvalId: approval.id,
+      };
+      throw error;
+    }
+
+    // Write quotas of the granting rule
+    if (result.rule) {
+      const reason = consumeQuota(result.rule, operation, writeCount);
+      if (reason) {
+        recordDecision(
+          this.config,
+          operation,
+          resourceId,
+          { allowed: false, rule: result.rule, reason },
+          payload
+        );
+        const error: ErrorResponse = { error: reason, code: "QUOTA_EXCEEDED" };
+        throw error;
+      }
+    }
+  }
+
+  // Trace rule evaluation without performing the operation. Like search
+  // results, ancestors the caller may not read are left out.
+  async explain(
+    resourceId: string,
+    operation: OperationType,
+    pageIdForCondition?: string
+  ): Promise<PermissionTrace> {
+    const trace = await explainPermission(
+      this.client,
+      this.config,
+      resourceId,
+      operation,
+      { pageIdForCondition }
+    );
+    recordDecision(this.config, operation, resourceId, trace.decision);
+
+    const [resource, ...ancestors] = trace.ancestors;
+    const readable: string[] = [];
+    for (const id of ancestors) {
+      if (await this.canReadAncestor(id)) {
+        readable.push(id);
+      }
+    }
+    trace.ancestors = resource ? [resource, ...readable] : readable;
+    return trace;
+  }
+
+  // Ancestors may be pages, blocks, databases or data sources
+  private async canReadAncestor(resourceId: string): Promise<boolean> {
+    for (const operation of ANCESTOR_READ_OPERATIONS) {
+      const result = await checkPermission(
+        this.client,
+        this.config,
+        resourceId,
+        operation
+      );
+      if (result.allowed) {
+        return true;
+      }
+    }
+    return false;
   }
 
   // Page operations
@@ -68,6 +326,22 @@ export class NotionSafeClient {
     return this.client.pages.retrieve({ page_id: pageId });
   }
 
+  // Page properties plus its block tree, pruned by block:read
+  async readPage(
+    pageId: string,
+    options: BlockTreeOptions = {}
+  ): Promise<PageContent> {
+    await this.ensurePermission(pageId, "page:read");
+    const page = (await this.client.pages.retrieve({
+      page_id: pageId,
+    })) as Record<string, unknown>;
+
+    if (!(await this.isAllowed(pageId, "block:read"))) {
+      return { page, blocks: [], withheld: true };
+    }
+    return { page, blocks: await this.collectBlockTree(pageId, options) };
+  }
+
   async createPage(params: CreatePageParams): Promise<unknown> {
     // Determine parent ID for permission check
     let parentId: string;
@@ -79,16 +353,113 @@ export class NotionSafeClient {
       throw { error: "Invalid parent type", code: "INVALID_PARENT" };
     }
 
-    await this.ensurePermission(parentId, "page:create");
-    return this.client.pages.create(params);
+    await this.ensurePermission(parentId, "page:create", {
+      payload: params,
+      request: { method: "createPage", args: [params] },
+      // The page and each of its blocks count as one write
+      writeCount: 1 + countBlocks(params.children ?? []),
+    });
+
+    // Notion accepts at most 100 shallow children on create; the rest is
+    // appended, deeper lists included
+    const children = params.children ?? [];
+    const first = children.slice(0, MAX_BLOCKS_PER_REQUEST);
+    const inline = fitsInRequest(first);
+    const page = await this.client.pages.create(
+      params.children ? { ...params, children: inline ? first : [] } : params
+    );
+    recordParent(page.id, parentId);
+    await this.appendInBatches(
+      page.id,
+      inline ? children.slice(MAX_BLOCKS_PER_REQUEST) : children
+    );
+    return page;
   }
 
   async updatePage(
     pageId: string,
     properties: UpdatePageParams["properties"]
   ): Promise<unknown> {
-    await this.ensurePermission(pageId, "page:update", pageId);
-    return this.client.pages.update({ page_id: pageId, properties });
+    // Properties may be keyed by ID; checks need their names
+    const before = await this.getPageProperties(pageId);
+    await this.ensurePermission(pageId, "page:update", {
+      pageIdForCondition: pageId,
+      proposedProperties: normalizePropertyKeys(properties ?? {}, before),
+      payload: properties,
+      request: { method: "updatePage", args: [pageId, properties] },
+    });
+
+    // Keep the previous values of the properties being written for undo
+    const previousProperties = pickProperties(
+      before,
+      Object.keys(properties ?? {})
+    );
+
+    const result = await this.client.pages.update({
+      page_id: pageId,
+      properties,
+    });
+    const entry = recordJournalEntry({
+      command: getAuditCommand(),
+      operation: "page:update",
+      resourceId: pageId,
+      previousProperties,
+    });
+    return { ...result, op_id: entry.id };
+  }
+
+  private async getPageProperties(
+    pageId: string
+  ): Promise<Record<string, unknown>> {
+    const page = (await this.client.pages.retrieve({
+      page_id: pageId,
+    })) as { properties?: Record<string, unknown> };
+    return page.properties ?? {};
+  }
+
+  // Needs page:move on the page and page:create under the new parent, so a
+  // page can neither leave a protected subtree nor enter an unwritable one
+  async movePage(pageId: string, parentId: string): Promise<unknown> {
+    const request: ApprovalRequest = {
+      method: "movePage",
+      args: [pageId, parentId],
+    };
+    await this.ensurePermission(pageId, "page:move", {
+      payload: { parentId },
+      request,
+    });
+    // Into a database, page:create is checked against its data source
+    const target = await this.moveTarget(parentId);
+    await this.ensurePermission(
+      "data_source_id" in target ? target.data_source_id : parentId,
+      "page:create",
+      { payload: { pageId }, request }
+    );
+
+    const result = await this.client.pages.move({
+      page_id: pageId,
+      parent: target,
+    });
+    // Rows belong to the data source, not to the database itself
+    invalidateParent(pageId);
+    if ("data_source_id" in target) {
+      recordParent(pageId, target.data_source_id);
+    } else {
+      recordParent(pageId, parentId);
+    }
+    return result;
+  }
+
+  // Pages move under a page, or into a database's data source
+  private async moveTarget(
+    parentId: string
+  ): Promise<{ page_id: string } | { data_source_id: string }> {
+    try {
+      await this.client.pages.retrieve({ page_id: parentId });
+      return { page_id: parentId };
+    } catch {
+      return { data_source_id: await this.resolveDataSourceId(parentId) };
+    }
   }
 
   // Database operations
@@ -97,42 +468,197 @@ export class NotionSafeClient {
     return this.client.databases.retrieve({ database_id: databaseId });
   }
 
+  // Data sources of a (possibly multi-source) database
+  async listDataSources(databaseId: string): Promise<unknown> {
+    await this.ensurePermission(databaseId, "database:read");
+    const database = (await this.client.databases.retrieve({
+      database_id: databaseId,
+    })) as { data_sources?: Array<{ id: string; name: string }> };
+
+    const results = database.data_sources ?? [];
+    for (const dataSource of results) {
+      recordParent(dataSource.id, databaseId);
+    }
+    return { object: "list", results };
+  }
+
+  // Rules are checked against the data source that is queried; rules on
+  // the database or its parent page match it through the hierarchy
   async queryDatabase(
     databaseId: string,
-    params?: QueryParams
+    params?: QueryParams,
+    dataSourceId?: string
   ): Promise<unknown> {
-    await this.ensurePermission(databaseId, "database:query");
+    const resolvedId = await this.resolveDataSourceId(databaseId, dataSourceId);
+    await this.ensurePermission(resolvedId, "database:query", {
+      payload: params,
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return this.client.dataSources.query({
+      data_source_id: resolvedId,
+      ...params,
+    } as any);
+  }
 
+  // Follows cursors until the results run out or `limit` items were yielded
+  async *iterateDatabaseQuery(
+    databaseId: string,
+    params: QueryParams = {},
+    limit?: number,
+    dataSourceId?: string
+  ): AsyncGenerator<unknown> {
+    const resolvedId = await this.resolveDataSourceId(databaseId, dataSourceId);
+    await this.ensurePermission(resolvedId, "database:query", {
+      payload: params,
+    });
+
+    yield* paginate(
+      (cursor) =>
+        this.client.dataSources.query({
+          data_source_id: resolvedId,
+          ...params,
+          start_cursor: cursor,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any),
+      limit,
+      params.start_cursor
+    );
+  }
+
+  private async resolveDataSourceId(
+    databaseId: string,
+    dataSourceId?: string
+  ): Promise<string> {
     // Notion SDK 5.x では databases.query が dataSources.query に変更された
     // まずデータベースから data_source_id を取得
     const database = (await this.client.databases.retrieve({
       database_id: databaseId,
     })) as { data_sources?: Array<{ id: string }> };
+    const dataSources = database.data_sources ?? [];
 
-    const dataSourceId = database.data_sources?.[0]?.id;
-    if (!dataSourceId) {
+    if (dataSourceId) {
+      // The data source must belong to the database that was named
+      const match = dataSources.find(
+        (dataSource) => normalizeId(dataSource.id) === normalizeId(dataSourceId)
+      );
+      if (!match) {
+        throw {
+          error: `Data source ${dataSourceId} does not belong to database ${databaseId}`,
+          code: "DATA_SOURCE_NOT_FOUND",
+        };
+      }
+      recordParent(match.id, databaseId);
+      return match.id;
+    }
+
+    const [first, ...others] = dataSources;
+    if (!first) {
       throw {
         error: "Database has no data source",
         code: "NO_DATA_SOURCE",
       };
     }
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return this.client.dataSources.query({
-      data_source_id: dataSourceId,
-      ...params,
-    } as any);
+    if (others.length > 0) {
+      throw {
+        error: `Database has ${dataSources.length} data sources; specify one of: ${dataSources.map((d) => d.id).join(", ")}`,
+        code: "MULTIPLE_DATA_SOURCES",
+      };
+    }
+    recordParent(first.id, databaseId);
+    return first.id;
   }
 
   async createDatabasePage(
     databaseId: string,
-    properties: CreatePageParams["properties"]
+    properties: CreatePageParams["properties"],
+    dataSourceId?: string
   ): Promise<unknown> {
-    await this.ensurePermission(databaseId, "database:create");
-    return this.client.pages.create({
-      parent: { database_id: databaseId },
+    // Conditions are checked against the new page's properties, with
+    // property IDs resolved to names through the data source schema
+    const resolvedId = await this.resolveDataSourceId(databaseId, dataSourceId);
+    const dataSource = (await this.client.dataSources.retrieve({
+      data_source_id: resolvedId,
+    })) as { properties?: Record<string, unknown> };
+    await this.ensurePermission(resolvedId, "database:create", {
+      proposedProperties:
+        properties &&
+        normalizePropertyKeys(properties, dataSource.properties ?? {}),
+      payload: properties,
+      request: {
+        method: "createDatabasePage",
+        args: [databaseId, properties, dataSourceId],
+      },
+    });
+    const page = await this.client.pages.create({
+      parent: { data_source_id: resolvedId },
       properties,
     });
+    recordParent(page.id, resolvedId);
+    return page;
+  }
+
+  // Database schema operations
+  async createDatabase(
+    parentPageId: string,
+    title: string,
+    properties?: Record<string, unknown>
+  ): Promise<unknown> {
+    await this.ensurePermission(parentPageId, "database:schema", {
+      payload: { title, properties },
+      request: {
+        method: "createDatabase",
+        args: [parentPageId, title, properties],
+      },
+    });
+
+    const database = await this.client.databases.create({
+      parent: { type: "page_id", page_id: parentPageId },
+      title: [{ type: "text", text: { content: title } }],
+      initial_data_source: {
+        properties: (properties ?? { Name: { title: {} } }) as InitialProperties,
+      },
+    });
+    recordParent(database.id, parentPageId);
+    return database;
+  }
+
+  async updateDatabaseSchema(
+    databaseId: string,
+    change: SchemaChange,
+    dataSourceId?: string
+  ): Promise<unknown> {
+    const reference = findRuleReference(this.config.rules, change);
+    if (reference) {
+      throw {
+        error: `Schema change rejected: ${reference}`,
+        code: "PROPERTY_REFERENCED_BY_RULE",
+      };
+    }
+
+    const resolvedId = await this.resolveDataSourceId(databaseId, dataSourceId);
+    const structural = change.kind === "add" || change.kind === "remove";
+    await this.ensurePermission(
+      resolvedId,
+      structural ? "database:schema" : "database:update",
+      {
+        payload: change,
+        request: {
+          method: "updateDatabaseSchema",
+          args: [databaseId, change, dataSourceId],
+        },
+        destructiveChange: describeDestructiveChange(change),
+      }
+    );
+
+    const dataSource = (await this.client.dataSources.retrieve({
+      data_source_id: resolvedId,
+    })) as { properties: Record<string, SchemaProperty> };
+
+    return this.client.dataSources.update({
+      data_source_id: resolvedId,
+      properties: buildSchemaUpdate(dataSource.properties, change),
+    } as UpdateDataSourceParams);
   }
 
   // Block operations
@@ -154,42 +680,504 @@ export class NotionSafeClient {
     });
   }
 
+  async *iterateBlockChildren(
+    blockId: string,
+    limit?: number,
+    startCursor?: string
+  ): AsyncGenerator<unknown> {
+    await this.ensurePermission(blockId, "block:read");
+    yield* paginate(
+      (cursor) =>
+        this.client.blocks.children.list({
+          block_id: blockId,
+          start_cursor: cursor,
+        }),
+      limit,
+      startCursor
+    );
+  }
+
+  // All descendants of a block; subtrees without block:read are withheld
+  async getBlockTree(blockId: string): Promise<BlockNode[]> {
+    await this.ensurePermission(blockId, "block:read");
+    return this.collectBlockTree(blockId);
+  }
+
+  private async listAllChildren(blockId: string): Promise<BlockNode[]> {
+    const blocks: BlockNode[] = [];
+    const pages = paginate((cursor) =>
+      this.client.blocks.children.list({
+        block_id: blockId,
+        start_cursor: cursor,
+      })
+    );
+    for await (const block of pages) {
+      blocks.push(block as BlockNode);
+    }
+    return blocks;
+  }
+
+  private async collectBlockTree(
+    blockId: string,
+    options: BlockTreeOptions = {},
+    depth = 1
+  ): Promise<BlockNode[]> {
+    const blocks = await this.listAllChildren(blockId);
+
+    for (const block of blocks) {
+      // Databases are separate documents; they are linked, not inlined
+      if (!block.has_children || block.type === "child_database") {
+        continue;
+      }
+      if (block.type === "child_page" && !options.includeChildPages) {
+        continue;
+      }
+      if (options.maxDepth !== undefined && depth >= options.maxDepth) {
+        block.truncated = true;
+        continue;
+      }
+
+      if (block.type === "child_page") {
+        if (!(await this.isAllowed(block.id, "page:read"))) {
+          block.withheld = true;
+          continue;
+        }
+        block.page = (await this.client.pages.retrieve({
+          page_id: block.id,
+        })) as Record<string, unknown>;
+      }
+
+      if (await this.isAllowed(block.id, "block:read")) {
+        block.children = await this.collectBlockTree(
+          block.id,
+          options,
+          depth + 1
+        );
+      } else {
+        block.withheld = true;
+      }
+    }
+
+    return blocks;
+  }
+
   async appendBlockChildren(
     blockId: string,
     children: AppendBlockChildrenParams["children"]
   ): Promise<unknown> {
-    await this.ensurePermission(blockId, "block:append");
-    return this.client.blocks.children.append({
+    await this.ensurePermission(blockId, "block:append", {
+      payload: children,
+      request: { method: "appendBlockChildren", args: [blockId, children] },
+      // Every block, nested ones included, counts as one write
+      writeCount: countBlocks(children),
+    });
+    const results = await this.appendInBatches(blockId, children);
+    const entry = recordJournalEntry({
+      command: getAuditCommand(),
+      operation: "block:append",
+      resourceId: blockId,
+      appendedBlockIds: results.map((block) => (block as { id: string }).id),
+    });
+    return { object: "list", results, op_id: entry.id };
+  }
+
+  // Edit a block in place; its type cannot change
+  async updateBlock(blockId: string, content: BlockContent): Promise<unknown> {
+    await this.ensurePermission(blockId, "block:update", {
+      pageIdForCondition: await this.containingPageId(blockId),
+      payload: content,
+      request: { method: "updateBlock", args: [blockId, content] },
+    });
+
+    const previousBlock = (await this.client.blocks.retrieve({
       block_id: blockId,
-      children,
+    })) as BlockNode;
+    const update =
+      "markdown" in content
+        ? markdownToBlockUpdate(content.markdown, previousBlock.type)
+        : validateBlockUpdate(content.data, previousBlock.type);
+
+    const result = await this.client.blocks.update({
+      ...update,
+      block_id: blockId,
+    } as UpdateBlockParams);
+    const entry = recordJournalEntry({
+      command: getAuditCommand(),
+      operation: "block:update",
+      resourceId: blockId,
+      previousBlock,
     });
+    return { ...result, op_id: entry.id };
+  }
+
+  // Page whose properties conditions on a block write are checked against;
+  // the block itself when there is none, which no condition can match
+  private async containingPageId(blockId: string): Promise<string> {
+    let currentId = blockId;
+    try {
+      for (let depth = 0; depth < 10; depth++) {
+        const { parent } = (await this.client.blocks.retrieve({
+          block_id: currentId,
+        })) as { parent?: { type: string; page_id?: string; block_id?: string } };
+        if (parent?.type === "page_id" && parent.page_id) {
+          return parent.page_id;
+        }
+        if (parent?.type !== "block_id" || !parent.block_id) {
+          break;
+        }
+        currentId = parent.block_id;
+      }
+    } catch {
+      // Unreadable blocks leave the condition unmet
+    }
+    return blockId;
+  }
+
+  private async appendInBatches(
+    blockId: string,
+    children: AppendBlockChildrenParams["children"]
+  ): Promise<unknown[]> {
+    const results: unknown[] = [];
+    for (let i = 0; i < children.length; i += MAX_BLOCKS_PER_REQUEST) {
+      const batch = children.slice(i, i + MAX_BLOCKS_PER_REQUEST);
+      // Too deeply nested for one request: children follow under each block
+      const nested = !fitsInRequest(batch);
+      const response = await this.client.blocks.children.append({
+        block_id: blockId,
+        children: nested ? batch.map(withoutChildren) : batch,
+      });
+      for (const [index, block] of response.results.entries()) {
+        recordParent(block.id, blockId);
+        results.push(block);
+        const blockChildren = childrenOf(batch[index]);
+        if (nested && blockChildren.length > 0) {
+          await this.appendInBatches(
+            block.id,
+            blockChildren as AppendBlockChildrenParams["children"]
+          );
+        }
+      }
+    }
+    return results;
   }
 
   async deleteBlock(blockId: string): Promise<unknown> {
-    await this.ensurePermission(blockId, "block:delete");
-    return this.client.blocks.delete({ block_id: blockId });
+    await this.ensurePermission(blockId, "block:delete", {
+      request: { method: "deleteBlock", args: [blockId] },
+    });
+
+    // Snapshot the block and its whole subtree (not pruned by block:read)
+    const deletedBlock = (await this.client.blocks.retrieve({
+      block_id: blockId,
+    })) as BlockNode;
+    if (deletedBlock.has_children) {
+      deletedBlock.children = await this.snapshotTree(blockId);
+    }
+    const parentId = (await getParentId(this.client, blockId)) ?? undefined;
+
+    const result = await this.client.blocks.delete({ block_id: blockId });
+    invalidateParent(blockId);
+    const entry = recordJournalEntry({
+      command: getAuditCommand(),
+      operation: "block:delete",
+      resourceId: blockId,
+      deletedBlock,
+      parentId,
+    });
+    return { ...result, op_id: entry.id };
+  }
+
+  private async snapshotTree(blockId: string): Promise<BlockNode[]> {
+    const blocks = await this.listAllChildren(blockId);
+    for (const block of blocks) {
+      // Child pages and databases are not deleted with the block's content
+      const isDocument =
+        block.type === "child_page" || block.type === "child_database";
+      if (block.has_children && !isDocument) {
+        block.children = await this.snapshotTree(block.id);
+      }
+    }
+    return blocks;
+  }
+
+  // Revert a journaled operation; the reverse operation is permission-checked
+  async undo(opId: string): Promise<JournalEntry> {
+    const entry = getJournalEntry(opId);
+    if (entry.undoneAt) {
+      throw {
+        error: `Operation ${opId} was already undone at ${entry.undoneAt}`,
+        code: "ALREADY_UNDONE",
+      };
+    }
+
+    switch (entry.operation) {
+      case "page:update": {
+        const properties = toPropertyUpdates(entry.previousProperties ?? {});
+        await this.ensurePermission(entry.resourceId, "page:update", {
+          pageIdForCondition: entry.resourceId,
+          proposedProperties: properties,
+          payload: properties,
+        });
+        await this.client.pages.update({
+          page_id: entry.resourceId,
+          properties: properties as UpdatePageParams["properties"],
+        });
+        break;
+      }
+      case "block:append":
+        for (const id of entry.appendedBlockIds ?? []) {
+          await this.ensurePermission(id, "block:delete");
+        }
+        for (const id of entry.appendedBlockIds ?? []) {
+          await this.client.blocks.delete({ block_id: id });
+          invalidateParent(id);
+        }
+        break;
+      case "block:update": {
+        if (!entry.previousBlock) break;
+        const update = toBlockUpdate(entry.previousBlock);
+        await this.ensurePermission(entry.resourceId, "block:update", {
+          pageIdForCondition: await this.containingPageId(entry.resourceId),
+          payload: update,
+        });
+        await this.client.blocks.update({
+          block_id: entry.resourceId,
+          ...update,
+        } as UpdateBlockParams);
+        break;
+      }
+      case "block:delete":
+        // Deleted blocks stay in the trash with their subtree; restore from there
+        await this.ensurePermission(
+          entry.parentId ?? entry.resourceId,
+          "block:append"
+        );
+        await this.client.blocks.update({
+          block_id: entry.resourceId,
+          in_trash: false,
+        });
+        if (entry.parentId) {
+          recordParent(entry.resourceId, entry.parentId);
+        }
+        break;
+    }
+
+    return markUndone(entry);
+  }
+
+  // Comment operations
+  async listComments(
+    blockId: string,
+    startCursor?: string,
+    pageSize?: number
+  ): Promise<unknown> {
+    await this.ensurePermission(blockId, "comment:read");
+    return this.client.comments.list({
+      block_id: blockId,
+      start_cursor: startCursor,
+      page_size: pageSize,
+    });
+  }
+
+  async *iterateComments(
+    blockId: string,
+    limit?: number,
+    startCursor?: string
+  ): AsyncGenerator<unknown> {
+    await this.ensurePermission(blockId, "comment:read");
+    yield* paginate(
+      (cursor) =>
+        this.client.comments.list({ block_id: blockId, start_cursor: cursor }),
+      limit,
+      startCursor
+    );
+  }
+
+  // New discussion on a page or block, or a reply in one of its discussions
+  async createComment(
+    targetId: string,
+    richText: RichTextRequest,
+    discussionId?: string
+  ): Promise<unknown> {
+    await this.ensurePermission(targetId, "comment:create", {
+      payload: richText,
+      request: {
+        method: "createComment",
+        args: [targetId, richText, discussionId],
+      },
+    });
+
+    if (discussionId) {
+      // The permission check covers the target, so the thread must belong to it
+      if (!(await this.hasDiscussion(targetId, discussionId))) {
+        throw {
+          error: `Discussion ${discussionId} not found on ${targetId}`,
+          code: "DISCUSSION_NOT_FOUND",
+        };
+      }
+      return this.client.comments.create({
+        discussion_id: discussionId,
+        rich_text: richText,
+      });
+    }
+
+    return this.client.comments.create({
+      parent: await this.commentParent(targetId),
+      rich_text: richText,
+    });
+  }
+
+  private async hasDiscussion(
+    blockId: string,
+    discussionId: string
+  ): Promise<boolean> {
+    const comments = paginate((cursor) =>
+      this.client.comments.list({ block_id: blockId, start_cursor: cursor })
+    );
+    for await (const comment of comments) {
+      const id = (comment as { discussion_id: string }).discussion_id;
+      if (normalizeId(id) === normalizeId(discussionId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async commentParent(
+    targetId: string
+  ): Promise<{ page_id: string } | { block_id: string }> {
+    try {
+      await this.client.pages.retrieve({ page_id: targetId });
+      return { page_id: targetId };
+    } catch {
+      return { block_id: targetId };
+    }
+  }
+
+  // File operations
+  async uploadFile(
+    path: string,
+    targetId: string,
+    options: UploadOptions = {}
+  ): Promise<unknown> {
+    // Limits are checked first so a rejected file never counts against quotas
+    const file = inspectFile(path, options.name);
+    checkUploadLimits(file, this.config.uploads);
+
+    const { property } = options;
+    const before = property ? await this.getPageProperties(targetId) : {};
+    await this.ensurePermission(targetId, "file:upload", {
+      pageIdForCondition: property ? targetId : undefined,
+      proposedProperties: property
+        ? normalizePropertyKeys({ [property]: {} }, before)
+        : undefined,
+      payload: { path, name: file.name, size: file.size, property },
+      request: { method: "uploadFile", args: [path, targetId, options] },
+    });
+
+    const uploadId = await this.sendFile(file);
+    const fileUpload = { type: "file_upload", file_upload: { id: uploadId } };
+
+    if (property) {
+      // The upload replaces the property's current files
+      const previousProperties = pickProperties(before, [property]);
+      const result = await this.client.pages.update({
+        page_id: targetId,
+        properties: {
+          [property]: { files: [{ ...fileUpload, name: file.name }] },
+        },
+      } as UpdatePageParams);
+      const entry = recordJournalEntry({
+        command: getAuditCommand(),
+        operation: "page:update",
+        resourceId: targetId,
+        previousProperties,
+      });
+      return { ...result, file_upload_id: uploadId, op_id: entry.id };
+    }
+
+    const type = blockTypeFor(file.mimeType);
+    const [block] = await this.appendInBatches(targetId, [
+      { type, [type]: fileUpload },
+    ] as unknown as AppendBlockChildrenParams["children"]);
+    const entry = recordJournalEntry({
+      command: getAuditCommand(),
+      operation: "block:append",
+      resourceId: targetId,
+      appendedBlockIds: block ? [(block as { id: string }).id] : [],
+    });
+    return { ...(block as object), file_upload_id: uploadId, op_id: entry.id };
+  }
+
+  // Sends the file in one request, or in parts when it is too large for one
+  private async sendFile(file: LocalFile): Promise<string> {
+    const data = readFileSync(file.path);
+    const multiPart = file.size > SINGLE_PART_MAX_BYTES;
+    const partCount = Math.ceil(file.size / PART_SIZE_BYTES);
+
+    const upload = await this.client.fileUploads.create({
+      filename: file.name,
+      content_type: file.mimeType,
+      ...(multiPart
+        ? { mode: "multi_part", number_of_parts: partCount }
+        : { mode: "single_part" }),
+    });
+
+    if (!multiPart) {
+      await this.client.fileUploads.send({
+        file_upload_id: upload.id,
+        file: {
+          filename: file.name,
+          data: new Blob([data], { type: file.mimeType }),
+        },
+      });
+      return upload.id;
+    }
+
+    for (let part = 0; part < partCount; part++) {
+      const chunk = data.subarray(
+        part * PART_SIZE_BYTES,
+        (part + 1) * PART_SIZE_BYTES
+      );
+      await this.client.fileUploads.send({
+        file_upload_id: upload.id,
+        file: {
+          filename: file.name,
+          data: new Blob([chunk], { type: file.mimeType }),
+        },
+        part_number: String(part + 1),
+      });
+    }
+    await this.client.fileUploads.complete({ file_upload_id: upload.id });
+    return upload.id;
   }
 
   // Search operations
-  async search(params: {
-    query?: string;
-    filter?: { property: "object"; value: "page" | "data_source" };
-    sort?: {
-      direction: "ascending" | "descending";
-      timestamp: "last_edited_time";
-    };
-    start_cursor?: string;
-    page_size?: number;
-  }): Promise<unknown> {
+  async search(params: SearchParams): Promise<SearchResult> {
     // Search permission check: allowed if defaultPermission is "read" or any rule has read permissions
     const hasReadPermission =
       this.config.defaultPermission === "read" ||
-      this.config.rules.some((rule) =>
-        rule.permissions.some((p) =>
-          ["page:read", "database:read", "block:read"].includes(p)
-        )
+      this.config.rules.some(
+        (rule) =>
+          rule.effect !== "deny" &&
+          rule.permissions.some((p) =>
+            ["page:read", "database:read", "block:read"].includes(p)
+          )
       );
 
+    recordDecision(
+      this.config,
+      "search",
+      "*",
+      {
+        allowed: hasReadPermission,
+        reason: hasReadPermission
+          ? "Read permissions configured"
+          : "Search not allowed: no read permissions configured",
+      },
+      params
+    );
+
     if (!hasReadPermission) {
       const error: ErrorResponse = {
         error: "Search not allowed: no read permissions configured",
@@ -198,7 +1186,148 @@ export class NotionSafeClient {
       throw error;
     }
 
-    return this.client.search(params);
+    const response = await this.client.search(params);
+
+    // Drop results the caller could not read directly; the cursor still
+    // refers to the unfiltered result set, so pagination keeps working
+    const results: typeof response.results = [];
+    for (const item of response.results) {
+      if (await this.canReadSearchResult(item)) {
+        results.push(item);
+      }
+    }
+
+    return {
+      ...response,
+      results,
+      withheld_count: response.results.length - results.length,
+    };
+  }
+
+  // Permission filtering is applied per page, so `limit` counts visible items.
+  // Items withheld on the fetched pages are added up in `stats`.
+  async *iterateSearch(
+    params: SearchParams,
+    limit?: number,
+    stats?: SearchStats
+  ): AsyncGenerator<unknown> {
+    yield* paginate(
+      async (cursor) => {
+        const response = await this.search({ ...params, start_cursor: cursor });
+        if (stats) {
+          stats.withheld_count += response.withheld_count;
+        }
+        return response;
+      },
+      limit,
+      params.start_cursor
+    );
+  }
+
+  private async canReadSearchResult(item: {
+    object: string;
+    id: string;
+    parent?: { type: string; database_id?: string };
+  }): Promise<boolean> {
+    let operation: OperationType = "page:read";
+
+    if (item.object === "data_source") {
+      // Database rules also cover their data sources
+      operation = "database:read";
+      if (item.parent?.database_id) {
+        recordParent(item.id, item.parent.database_id);
+      }
+    }
+
+    return this.isAllowed(item.id, operation);
+  }
+
+  // Permission check that reports instead of throwing, for pruning results
+  private async isAllowed(
+    resourceId: string,
+    operation: OperationType
+  ): Promise<boolean> {
+    const result = await checkPermission(
+      this.client,
+      this.config,
+      resourceId,
+      operation
+    );
+    recordDecision(this.config, operation, resourceId, result);
+    return result.allowed;
+  }
+
+  // Execute a queued request; permissions are checked again at this point
+  async approve(id: string): Promise<Approval> {
+    const approval = getPendingApproval(id);
+
+    this.executingApproval = true;
+    try {
+      const result = await this.replay(approval.request);
+      return decideApproval(id, { status: "executed", result });
+    } catch (error) {
+      const message =
+        (error as Partial<ErrorResponse>)?.error ??
+        (error instanceof Error ? error.message : String(error));
+      decideApproval(id, { status: "failed", error: message });
+      throw error;
+    } finally {
+      this.executingApproval = false;
+    }
+  }
+
+  private replay(request: ApprovalRequest): Promise<unknown> {
+    const [first, second, third] = request.args;
+    switch (request.method) {
+      case "createPage":
+        return this.createPage(first as CreatePageParams);
+      case "updatePage":
+        return this.updatePage(
+          first as string,
+          second as UpdatePageParams["properties"]
+        );
+      case "movePage":
+        return this.movePage(first as string, second as string);
+      case "createDatabasePage":
+        return this.createDatabasePage(
+          first as string,
+          second as CreatePageParams["properties"],
+          third as string | undefined
+        );
+      case "createDatabase":
+        return this.createDatabase(
+          first as string,
+          second as string,
+          third as Record<string, unknown> | undefined
+        );
+      case "updateDatabaseSchema":
+        return this.updateDatabaseSchema(
+          first as string,
+          second as SchemaChange,
+          third as string | undefined
+        );
+      case "appendBlockChildren":
+        return this.appendBlockChildren(
+          first as string,
+          second as AppendBlockChildrenParams["children"]
+        );
+      case "updateBlock":
+        return this.updateBlock(first as string, second as BlockContent);
+      case "deleteBlock":
+        return this.deleteBlock(first as string);
+      case "createComment":
+        return this.createComment(
+          first as string,
+          second as RichTextRequest,
+          third as string | undefined
+        );
+      case "uploadFile":
+        return this.uploadFile(
+          first as string,
+          second as string,
+          third as UploadOptions | undefined
+        );
+    }
   }
 
   // Clear the parent hierarchy cache
@@ -207,6 +1336,313 @@ export class NotionSafeClient {
   }
 }
 
+function normalizeId(id: string): string {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+interface SchemaProperty {
+  id: string;
+  name: string;
+  type: string;
+  [config: string]: unknown;
+}
+
+interface SelectOption {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+const OPTION_PROPERTY_TYPES = ["select", "multi_select", "status"];
+
+// Renames count as destructive too: rules and conditions refer to names
+function describeDestructiveChange(change: SchemaChange): string | undefined {
+  if (change.kind === "remove") {
+    return `removing property '${change.name}'`;
+  }
+  if (change.kind === "rename") {
+    return `renaming property '${change.name}'`;
+  }
+  if (change.kind === "options") {
+    const removed = change.remove ?? [];
+    const renamed = Object.keys(change.rename ?? {});
+    if (removed.length > 0) {
+      return `removing options ${removed.map((o) => `'${o}'`).join(", ")} of '${change.name}'`;
+    }
+    if (renamed.length > 0) {
+      return `renaming options ${renamed.map((o) => `'${o}'`).join(", ")} of '${change.name}'`;
+    }
+  }
+  return undefined;
+}
+
+// Renaming or removing a property or option that a rule names would change
+// what the rule protects, so such changes are never allowed
+function findRuleReference(
+  rules: Rule[],
+  change: SchemaChange
+): string | undefined {
+  if (change.kind === "add") {
+    return undefined;
+  }
+  const options =
+    change.kind === "options"
+      ? [...(change.remove ?? []), ...Object.keys(change.rename ?? {})]
+      : [];
+
+  for (const rule of rules) {
+    const conditions = rule.condition
+      ? flattenCondition(rule.condition).filter(
+          (condition) => condition.property === change.name
+        )
+      : [];
+
+    if (change.kind !== "options") {
+      if (
+        rule.protectedProperties?.includes(change.name) ||
+        rule.writableProperties?.includes(change.name) ||
+        conditions.length > 0
+      ) {
+        return `property '${change.name}' is referenced by rule '${rule.name}'`;
+      }
+      continue;
+    }
+
+    const option = options.find((name) =>
+      conditions.some((condition) => conditionValues(condition).includes(name))
+    );
+    if (option !== undefined) {
+      return `option '${option}' of '${change.name}' is referenced by rule '${rule.name}'`;
+    }
+  }
+  return undefined;
+}
+
+function requireProperty(
+  properties: Record<string, SchemaProperty>,
+  name: string
+): SchemaProperty {
+  const property = properties[name];
+  if (!property) {
+    throw { error: `Property not found: ${name}`, code: "PROPERTY_NOT_FOUND" };
+  }
+  return property;
+}
+
+// The "properties" body of a data source update for one schema change
+function buildSchemaUpdate(
+  properties: Record<string, SchemaProperty>,
+  change: SchemaChange
+): Record<string, unknown> {
+  switch (change.kind) {
+    case "add":
+      // Re-adding an existing name would change its type and drop its values
+      if (properties[change.name]) {
+        throw {
+          error: `Property already exists: ${change.name}`,
+          code: "PROPERTY_EXISTS",
+        };
+      }
+      return { [change.name]: change.config };
+    case "rename":
+      return {
+        [requireProperty(properties, change.name).id]: { name: change.newName },
+      };
+    case "remove":
+      return { [requireProperty(properties, change.name).id]: null };
+    case "options": {
+      const property = requireProperty(properties, change.name);
+      if (!OPTION_PROPERTY_TYPES.includes(property.type)) {
+        throw {
+          error: `Property '${change.name}' is a ${property.type} property; options can only be edited on ${OPTION_PROPERTY_TYPES.join(", ")}`,
+          code: "INVALID_PROPERTY_TYPE",
+        };
+      }
+
+      const config = property[property.type] as { options?: SelectOption[] };
+      const current = config.options ?? [];
+      const names = new Set(current.map((option) => option.name));
+      const referenced = [
+        ...(change.remove ?? []),
+        ...Object.keys(change.rename ?? {}),
+      ];
+      for (const name of referenced) {
+        if (!names.has(name)) {
+          throw {
+            error: `Option not found on '${change.name}': ${name}`,
+            code: "OPTION_NOT_FOUND",
+          };
+        }
+      }
+
+      // The options list replaces the current one; omitted options are removed
+      const options: Array<{ id?: string; name: string; color?: string }> =
+        current
+          .filter((option) => !change.remove?.includes(option.name))
+          .map((option) => ({
+            id: option.id,
+            name: change.rename?.[option.name] ?? option.name,
+            color: option.color,
+          }));
+      for (const name of change.add ?? []) {
+        options.push({ name });
+      }
+      return { [property.id]: { [property.type]: { options } } };
+    }
+  }
+}
+
+// Block types whose text can be replaced from a differently typed Markdown line
+const RICH_TEXT_BLOCK_TYPES = new Set([
+  "paragraph",
+  "heading_1",
+  "heading_2",
+  "heading_3",
+  "bulleted_list_item",
+  "numbered_list_item",
+  "to_do",
+  "toggle",
+  "quote",
+  "callout",
+  "code",
+]);
+
+// A single Markdown block as an update body for a block of the given type
+function markdownToBlockUpdate(
+  markdown: string,
+  type: string
+): Record<string, unknown> {
+  const blocks = markdownToBlocks(markdown);
+  const parsed = blocks[0];
+  if (blocks.length !== 1 || !parsed) {
+    throw {
+      error: "Markdown must describe exactly one block",
+      code: "INVALID_ARGUMENT",
+    };
+  }
+
+  // Nested blocks are not part of an update; append them separately
+  const { children: _children, ...data } = parsed[parsed.type] as Record<
+    string,
+    unknown
+  >;
+  if (parsed.type === type) {
+    return { [type]: data };
+  }
+  // e.g. plain text for a heading: keep the heading, replace its text
+  if (RICH_TEXT_BLOCK_TYPES.has(type) && "rich_text" in data) {
+    return { [type]: { rich_text: data.rich_text } };
+  }
+  throw {
+    error: `Cannot update a ${type} block with ${parsed.type} content; block types cannot be changed`,
+    code: "BLOCK_TYPE_MISMATCH",
+  };
+}
+
+// JSON updates may only carry the fields of the block's own type; anything
+// else (in_trash, block_id, another type) would bypass the block:update check
+function validateBlockUpdate(
+  data: Record<string, unknown>,
+  type: string
+): Record<string, unknown> {
+  const keys = Object.keys(data);
+  const fields = data[type];
+  if (
+    keys.length !== 1 ||
+    keys[0] !== type ||
+    typeof fields !== "object" ||
+    fields === null ||
+    Array.isArray(fields)
+  ) {
+    throw {
+      error: `Block update must be a single "${type}" object matching the block's type (got: ${keys.join(", ") || "nothing"})`,
+      code: "INVALID_BLOCK_UPDATE",
+    };
+  }
+  return { [type]: fields };
+}
+
+function childrenOf(block: unknown): unknown[] {
+  const { type } = (block ?? {}) as { type?: string };
+  const data = type
+    ? ((block as Record<string, unknown>)[type] as { children?: unknown[] })
+    : undefined;
+  return data?.children ?? [];
+}
+
+function withoutChildren<T>(block: T): T {
+  const { type } = block as { type?: string };
+  const data = type ? (block as Record<string, unknown>)[type] : undefined;
+  if (!type || typeof data !== "object" || data === null) {
+    return block;
+  }
+  const { children: _children, ...rest } = data as Record<string, unknown>;
+  return { ...block, [type]: rest };
+}
+
+function countBlocks(blocks: unknown[]): number {
+  let count = 0;
+  for (const block of blocks) {
+    count += 1 + countBlocks(childrenOf(block));
+  }
+  return count;
+}
+
+// Whether blocks can be sent as-is in a single create/append request
+function fitsInRequest(blocks: unknown[], depth = 0): boolean {
+  if (blocks.length > MAX_BLOCKS_PER_REQUEST) {
+    return false;
+  }
+  return blocks.every((block) => {
+    const children = childrenOf(block);
+    return (
+      children.length === 0 ||
+      (depth < MAX_NESTING_PER_REQUEST && fitsInRequest(children, depth + 1))
+    );
+  });
+}
+
+// Properties keyed by name, selected by name or property ID
+function pickProperties(
+  properties: Record<string, unknown>,
+  keys: string[]
+): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(properties)) {
+    const id = (value as { id?: string }).id;
+    if (keys.includes(name) || (id !== undefined && keys.includes(id))) {
+      picked[name] = value;
+    }
+  }
+  return picked;
+}
+
+interface PaginatedResponse {
+  results: unknown[];
+  next_cursor: string | null;
+}
+
+async function* paginate(
+  fetchPage: (cursor: string | undefined) => Promise<PaginatedResponse>,
+  limit?: number,
+  startCursor?: string
+): AsyncGenerator<unknown> {
+  let cursor = startCursor;
+  let count = 0;
+
+  do {
+    const response = await fetchPage(cursor);
+    for (const item of response.results) {
+      if (limit !== undefined && count >= limit) {
+        return;
+      }
+      yield item;
+      count++;
+    }
+    cursor = response.next_cursor ?? undefined;
+  } while (cursor && (limit === undefined || count < limit));
+}
+
 // Singleton instance
 let clientInstance: NotionSafeClient | null = null;
 
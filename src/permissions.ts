@@ -1,20 +1,33 @@
+import { createHash } from "node:crypto";
 import { Client } from "@notionhq/client";
 import type {
   Config,
   Rule,
   OperationType,
   PermissionCheckResult,
+  PermissionTrace,
+  CheckPermissionOptions,
+  PropertyValues,
   Condition,
+  ConditionValue,
   Permission,
+  ErrorResponse,
 } from "./types.ts";
+import { evaluateCondition, describeCondition } from "./conditions.ts";
+import {
+  getCached,
+  setCached,
+  deleteCachedMatching,
+  clearCacheStore,
+} from "./cache.ts";
 
-// Cache for parent hierarchy lookups with TTL
-interface CacheEntry {
-  value: string | null;
-  expiresAt: number;
-}
-const parentCache = new Map<string, CacheEntry>();
-const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const READ_OPERATIONS: OperationType[] = [
+  "page:read",
+  "database:read",
+  "database:query",
+  "block:read",
+  "comment:read",
+];
 
 function normalizeId(id: string): string {
   return id.replace(/-/g, "").toLowerCase();
@@ -24,16 +37,28 @@ function idsMatch(id1: string, id2: string): boolean {
   return normalizeId(id1) === normalizeId(id2);
 }
 
-async function getParentId(
+// Parents are cached per token: another token (or profile) may see a
+// different hierarchy, or nothing at all
+let parentCacheScope = "";
+
+export function setParentCacheScope(config: Config): void {
+  parentCacheScope = tokenFingerprint(config);
+}
+
+function parentCacheKey(resourceId: string): string {
+  return `${parentCacheScope}:${normalizeId(resourceId)}`;
+}
+
+export async function getParentId(
   client: Client,
   resourceId: string
 ): Promise<string | null> {
-  const normalizedId = normalizeId(resourceId);
-  const now = Date.now();
+  const cacheKey = parentCacheKey(resourceId);
 
-  const cached = parentCache.get(normalizedId);
-  if (cached && cached.expiresAt > now) {
-    return cached.value;
+  // Parent hierarchy lookups are cached on disk with a TTL
+  const cached = getCached("parents", cacheKey);
+  if (cached !== undefined) {
+    return cached;
   }
 
   try {
@@ -45,11 +70,16 @@ async function getParentId(
         parentId = page.parent.page_id;
       } else if (page.parent.type === "database_id") {
         parentId = page.parent.database_id;
-      } else if (page.parent.type === "data_source_id" && "database_id" in page.parent) {
-        // Notion SDK v5+ returns data_source_id type with database_id field
-        parentId = (page.parent as { database_id: string }).database_id;
+      } else if (page.parent.type === "data_source_id") {
+        // Rows belong to a data source, which in turn belongs to the database
+        parentId = page.parent.data_source_id;
+        setCached(
+          "parents",
+          parentCacheKey(page.parent.data_source_id),
+          page.parent.database_id
+        );
       }
-      parentCache.set(normalizedId, { value: parentId, expiresAt: now + CACHE_TTL_MS });
+      setCached("parents", cacheKey, parentId);
       return parentId;
     }
   } catch {
@@ -65,7 +95,7 @@ async function getParentId(
         } else if (block.parent.type === "block_id") {
           parentId = block.parent.block_id;
         }
-        parentCache.set(normalizedId, { value: parentId, expiresAt: now + CACHE_TTL_MS });
+        setCached("parents", cacheKey, parentId);
         return parentId;
       }
     } catch {
@@ -77,16 +107,31 @@ async function getParentId(
           if (db.parent.type === "page_id") {
             parentId = db.parent.page_id;
           }
-          parentCache.set(normalizedId, { value: parentId, expiresAt: now + CACHE_TTL_MS });
+          setCached("parents", cacheKey, parentId);
           return parentId;
         }
       } catch {
-        // Resource not found
+        // Not a database either, try as data source
+        try {
+          const dataSource = await client.dataSources.retrieve({
+            data_source_id: resourceId,
+          });
+          if ("parent" in dataSource) {
+            const parentId =
+              dataSource.parent.type === "database_id"
+                ? dataSource.parent.database_id
+                : null;
+            setCached("parents", cacheKey, parentId);
+            return parentId;
+          }
+        } catch {
+          // Resource not found
+        }
       }
     }
   }
 
-  parentCache.set(normalizedId, { value: null, expiresAt: now + CACHE_TTL_MS });
+  // Failed lookups may be transient or specific to this token: not cached
   return null;
 }
 
@@ -118,50 +163,383 @@ async function isDescendantOf(
   return false;
 }
 
-async function checkCondition(
+async function getAncestorChain(
+  client: Client,
+  resourceId: string,
+  maxDepth = 10
+): Promise<string[]> {
+  const chain: string[] = [resourceId];
+  let currentId: string | null = resourceId;
+
+  while (currentId && chain.length <= maxDepth) {
+    const parentId = await getParentId(client, currentId);
+    if (!parentId) {
+      break;
+    }
+    chain.push(parentId);
+    currentId = parentId;
+  }
+
+  return chain;
+}
+
+async function lookupUser(
+  client: Client,
+  reference: string
+): Promise<string | null> {
+  if (reference === "me") {
+    // Prefer the user who owns the integration, fall back to the bot itself
+    const self = await client.users.me({});
+    const owner =
+      self.type === "bot" && "owner" in self.bot ? self.bot.owner : undefined;
+    if (owner && owner.type === "user" && "user" in owner) {
+      return (owner.user as { id: string }).id;
+    }
+    return self.id;
+  }
+
+  // Email lookup requires the "read user information including email" capability
+  let cursor: string | undefined;
+  do {
+    const response = await client.users.list({ start_cursor: cursor });
+    for (const user of response.results) {
+      if (
+        user.type === "person" &&
+        user.person.email?.toLowerCase() === reference.toLowerCase()
+      ) {
+        return user.id;
+      }
+    }
+    cursor = response.next_cursor ?? undefined;
+  } while (cursor);
+
+  return null;
+}
+
+// Short hash so the cache never stores the token itself
+function tokenFingerprint(config: Config): string {
+  const token = process.env[config.tokenEnv ?? "NOTION_TOKEN"] ?? "";
+  return createHash("sha256").update(token).digest("hex").slice(0, 12);
+}
+
+async function resolveUserReference(
+  client: Client,
+  config: Config,
+  value: ConditionValue
+): Promise<ConditionValue> {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  // Aliases map a name to a user ID, an email or "me"
+  const reference = config.users?.[value] ?? value;
+  if (reference !== "me" && !reference.includes("@")) {
+    return reference;
+  }
+
+  // Resolved user references share the hierarchy cache and its TTL.
+  // "me" depends on the token, so its key is scoped per token.
+  const cacheKey =
+    reference === "me" ? `me:${tokenFingerprint(config)}` : reference;
+  const cached = getCached("users", cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let userId: string | null = null;
+  try {
+    userId = await lookupUser(client, reference);
+  } catch {
+    // Failed lookups (capability, rate limit, network) are not cached
+  }
+  if (!userId) {
+    const error: ErrorResponse = {
+      error: `User reference could not be resolved: ${reference}`,
+      code: "USER_NOT_RESOLVED",
+    };
+    throw error;
+  }
+  setCached("users", cacheKey, userId);
+  return userId;
+}
+
+async function resolveConditionUsers(
   client: Client,
-  pageId: string,
+  config: Config,
   condition: Condition
-): Promise<boolean> {
+): Promise<Condition> {
+  if ("all" in condition) {
+    return {
+      all: await Promise.all(
+        condition.all.map((c) => resolveConditionUsers(client, config, c))
+      ),
+    };
+  }
+  if ("any" in condition) {
+    return {
+      any: await Promise.all(
+        condition.any.map((c) => resolveConditionUsers(client, config, c))
+      ),
+    };
+  }
+  if ("not" in condition) {
+    return { not: await resolveConditionUsers(client, config, condition.not) };
+  }
+  if (condition.type !== "people") {
+    return condition;
+  }
+
+  const resolve = (value: ConditionValue) =>
+    resolveUserReference(client, config, value);
+  return {
+    ...condition,
+    equals:
+      condition.equals === undefined ? undefined : await resolve(condition.equals),
+    not_equals:
+      condition.not_equals === undefined
+        ? undefined
+        : await resolve(condition.not_equals),
+    in:
+      condition.in === undefined
+        ? undefined
+        : await Promise.all(condition.in.map(resolve)),
+    contains:
+      condition.contains === undefined
+        ? undefined
+        : String(await resolve(condition.contains)),
+  };
+}
+
+async function getPageState(
+  client: Client,
+  pageId: string
+): Promise<{ properties: PropertyValues; dataSourceId?: string } | null> {
   try {
     const page = await client.pages.retrieve({ page_id: pageId });
-
     if (!("properties" in page)) {
-      return false;
+      return null;
     }
+    return {
+      properties: page.properties,
+      dataSourceId:
+        page.parent.type === "data_source_id"
+          ? page.parent.data_source_id
+          : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
 
-    const property = page.properties[condition.property];
-    if (!property) {
-      return false;
+const OPTION_TYPES = ["select", "status", "multi_select"] as const;
+
+// Notion also accepts select/status/multi_select values by option ID, which
+// conditions cannot compare. Such values are replaced by the option names of
+// the data source schema; null when any of them cannot be named.
+async function nameOptionValues(
+  client: Client,
+  proposed: PropertyValues,
+  dataSourceId: string | undefined
+): Promise<PropertyValues | null> {
+  const byId = Object.keys(proposed).filter((name) =>
+    optionsOf(proposed[name]).some((option) => option.id !== undefined)
+  );
+  if (byId.length === 0) {
+    return proposed;
+  }
+  if (!dataSourceId) {
+    return null;
+  }
+
+  let schema: Record<string, unknown>;
+  try {
+    const dataSource = await client.dataSources.retrieve({
+      data_source_id: dataSourceId,
+    });
+    schema = "properties" in dataSource ? dataSource.properties : {};
+  } catch {
+    return null;
+  }
+
+  const named: PropertyValues = { ...proposed };
+  for (const name of byId) {
+    const value = nameOptions(proposed[name], schema[name]);
+    if (!value) {
+      return null;
     }
+    named[name] = value;
+  }
+  return named;
+}
 
-    switch (condition.type) {
-      case "people": {
-        if (property.type !== "people") return false;
-        return property.people.some((p) => p.id === condition.equals);
-      }
-      case "select": {
-        if (property.type !== "select") return false;
-        return property.select?.name === condition.equals;
-      }
-      case "multi_select": {
-        if (property.type !== "multi_select") return false;
-        return property.multi_select.some((s) => s.name === condition.equals);
-      }
-      case "status": {
-        if (property.type !== "status") return false;
-        return property.status?.name === condition.equals;
-      }
-      case "checkbox": {
-        if (property.type !== "checkbox") return false;
-        return property.checkbox === condition.equals;
-      }
-      default:
-        return false;
+interface OptionValue {
+  id?: string;
+  name?: string;
+}
+
+function optionsOf(value: unknown): OptionValue[] {
+  const record = (value ?? {}) as Record<string, unknown>;
+  return OPTION_TYPES.flatMap((type) => {
+    const raw = record[type];
+    if (Array.isArray(raw)) return raw as OptionValue[];
+    return raw && typeof raw === "object" ? [raw as OptionValue] : [];
+  });
+}
+
+// The ID decides which option Notion writes, so it wins over a given name
+function nameOptions(
+  value: unknown,
+  configuration: unknown
+): Record<string, unknown> | null {
+  const record = value as Record<string, unknown>;
+  const type = OPTION_TYPES.find((t) => t in record);
+  if (!type) {
+    return null;
+  }
+  const options =
+    ((configuration as Record<string, { options?: OptionValue[] }> | undefined)?.[
+      type
+    ]?.options ?? []);
+  const toNamed = (option: OptionValue): OptionValue | null => {
+    if (option.id === undefined) return option;
+    const match = options.find(
+      (o) => o.id === option.id || o.id === safeDecode(option.id ?? "")
+    );
+    return match?.name === undefined ? null : { name: match.name };
+  };
+
+  const raw = record[type];
+  if (Array.isArray(raw)) {
+    const named = (raw as OptionValue[]).map(toNamed);
+    return named.includes(null) ? null : { ...record, [type]: named };
+  }
+  const named = toNamed(raw as OptionValue);
+  return named && { ...record, [type]: named };
+}
+
+// Notion accepts property IDs as well as names as keys of a write; map IDs
+// to the names used by conditions and property lists. `schema` is a page's
+// properties or a data source's property configurations (both carry ids).
+export function normalizePropertyKeys(
+  proposed: PropertyValues,
+  schema: Record<string, unknown>
+): PropertyValues {
+  const namesById = new Map<string, string>();
+  for (const [name, value] of Object.entries(schema)) {
+    const id = (value as { id?: string } | null)?.id;
+    if (id !== undefined) {
+      namesById.set(id, name);
+      namesById.set(safeDecode(id), name);
     }
+  }
+
+  const normalized: PropertyValues = {};
+  for (const [key, value] of Object.entries(proposed)) {
+    const name =
+      key in schema ? key : (namesById.get(key) ?? namesById.get(safeDecode(key)));
+    normalized[name ?? key] = value;
+  }
+  return normalized;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
   } catch {
-    return false;
+    return value;
+  }
+}
+
+// Property states a condition is checked against: the page as it is now and,
+// for writes that carry properties, the state the write would produce
+async function getConditionStates(
+  client: Client,
+  operation: OperationType,
+  resourceId: string,
+  targetPageId: string,
+  proposedProperties?: PropertyValues
+): Promise<PropertyValues[] | null> {
+  if (operation === "database:create" && proposedProperties) {
+    // A new database page has no prior state; the resource is its data source
+    const proposed = await nameOptionValues(
+      client,
+      proposedProperties,
+      resourceId
+    );
+    return proposed && [proposed];
+  }
+
+  const page = await getPageState(client, targetPageId);
+  if (!page) {
+    return null;
+  }
+  const current = page.properties;
+  if (proposedProperties) {
+    // Keys written by property ID must replace the name-keyed values
+    const proposed = await nameOptionValues(
+      client,
+      normalizePropertyKeys(proposedProperties, current),
+      page.dataSourceId
+    );
+    return proposed && [current, { ...current, ...proposed }];
+  }
+  return [current];
+}
+
+async function checkCondition(
+  client: Client,
+  config: Config,
+  condition: Condition,
+  states: PropertyValues[],
+  mode: "every" | "some"
+): Promise<boolean | null> {
+  let resolved: Condition;
+  try {
+    resolved = await resolveConditionUsers(client, config, condition);
+  } catch (error) {
+    // Null when a user reference cannot be resolved; callers fail closed
+    if ((error as ErrorResponse).code === "USER_NOT_RESOLVED") {
+      return null;
+    }
+    throw error;
+  }
+  return states[mode]((properties) => evaluateCondition(properties, resolved));
+}
+
+async function ruleMatches(
+  client: Client,
+  rule: Rule,
+  resourceId: string
+): Promise<boolean> {
+  if (rule.pageId) {
+    return isDescendantOf(client, resourceId, rule.pageId);
   }
+  if (rule.databaseId) {
+    // For database rules, check if resource is the database itself or a page in it
+    if (idsMatch(resourceId, rule.databaseId)) {
+      return true;
+    }
+    // Check if resource is a data source of the database
+    const parentId = await getParentId(client, resourceId);
+    if (parentId === null) {
+      return false;
+    }
+    if (idsMatch(parentId, rule.databaseId)) {
+      return true;
+    }
+    // Check if resource is a row in one of its data sources
+    const grandparentId = await getParentId(client, parentId);
+    return grandparentId !== null && idsMatch(grandparentId, rule.databaseId);
+  }
+  if (rule.dataSourceId) {
+    // The data source itself or a row in it
+    if (idsMatch(resourceId, rule.dataSourceId)) {
+      return true;
+    }
+    const parentId = await getParentId(client, resourceId);
+    return parentId !== null && idsMatch(parentId, rule.dataSourceId);
+  }
+  return false;
 }
 
 export async function checkPermission(
@@ -169,32 +547,82 @@ export async function checkPermission(
   config: Config,
   resourceId: string,
   operation: OperationType,
-  pageIdForCondition?: string
+  options: CheckPermissionOptions = {}
 ): Promise<PermissionCheckResult> {
-  // Find matching rule
+  const { pageIdForCondition, proposedProperties, trace } = options;
+  const targetPageId = pageIdForCondition ?? resourceId;
+
+  // Deny rules always win, regardless of their position in the list
   for (const rule of config.rules) {
-    let matches = false;
-
-    if (rule.pageId) {
-      matches = await isDescendantOf(client, resourceId, rule.pageId);
-    } else if (rule.databaseId) {
-      // For database rules, check if resource is the database itself or a page in it
-      if (idsMatch(resourceId, rule.databaseId)) {
-        matches = true;
-      } else {
-        // Check if resource is a child of the database
-        const parentId = await getParentId(client, resourceId);
-        if (parentId && idsMatch(parentId, rule.databaseId)) {
-          matches = true;
-        }
+    if (rule.effect !== "deny" || !rule.permissions.includes(operation)) {
+      continue;
+    }
+
+    let matches = await ruleMatches(client, rule, resourceId);
+    if (matches && rule.condition) {
+      // A deny applies if the current or resulting state matches; states
+      // that cannot be read and unresolvable users are treated as matching
+      const states = await getConditionStates(
+        client,
+        operation,
+        resourceId,
+        targetPageId,
+        proposedProperties
+      );
+      const conditionMet =
+        states === null ||
+        (await checkCondition(client, config, rule.condition, states, "some")) !==
+          false;
+      if (trace) {
+        trace.condition = {
+          pageId: operation === "database:create" ? undefined : targetPageId,
+          proposed: proposedProperties !== undefined,
+          condition: rule.condition,
+          met: conditionMet,
+        };
       }
+      matches = conditionMet;
     }
 
+    trace?.rules.push({ name: rule.name, effect: "deny", matched: matches });
+
     if (matches) {
+      if (trace) {
+        trace.matchedRule = rule.name;
+      }
+      return {
+        allowed: false,
+        rule,
+        reason: `Operation '${operation}' denied by rule '${rule.name}'`,
+      };
+    }
+  }
+
+  // Find first matching allow rule
+  for (const rule of config.rules) {
+    if (rule.effect === "deny") {
+      continue;
+    }
+
+    const matches = await ruleMatches(client, rule, resourceId);
+
+    if (!matches) {
+      trace?.rules.push({ name: rule.name, effect: "allow", matched: false });
+    } else {
       // Check if rule has the required permission
       const rulePermissions = new Set<Permission>(rule.permissions);
       const hasPermission = rulePermissions.has(operation);
 
+      if (trace) {
+        trace.rules.push({
+          name: rule.name,
+          effect: "allow",
+          matched: true,
+          hasPermission,
+        });
+        trace.matchedRule = rule.name;
+      }
+
       if (!hasPermission) {
         return {
           allowed: false,
@@ -209,20 +637,38 @@ export async function checkPermission(
         "block:append",
         "page:create",
         "database:create",
+        "file:upload",
+        "block:update",
       ];
       if (writeOperations.includes(operation) && rule.condition) {
-        const targetPageId = pageIdForCondition ?? resourceId;
-        const conditionMet = await checkCondition(
+        // Both the current and the resulting state must satisfy the condition,
+        // so a write cannot move a page out of the rule's scope
+        const states = await getConditionStates(
           client,
+          operation,
+          resourceId,
           targetPageId,
-          rule.condition
+          proposedProperties
         );
+        const conditionMet =
+          states !== null &&
+          (await checkCondition(client, config, rule.condition, states, "every")) ===
+            true;
+
+        if (trace) {
+          trace.condition = {
+            pageId: operation === "database:create" ? undefined : targetPageId,
+            proposed: proposedProperties !== undefined,
+            condition: rule.condition,
+            met: conditionMet,
+          };
+        }
 
         if (!conditionMet) {
           return {
             allowed: false,
             rule,
-            reason: `Condition not met: ${rule.condition.property} must equal '${rule.condition.equals}'`,
+            reason: `Condition not met: ${describeCondition(rule.condition)}`,
           };
         }
       }
@@ -237,13 +683,10 @@ export async function checkPermission(
 
   // No matching rule, use default permission
   // Check if operation is a read-type operation
-  const readOperations: OperationType[] = [
-    "page:read",
-    "database:read",
-    "database:query",
-    "block:read",
-  ];
-  if (config.defaultPermission === "read" && readOperations.includes(operation)) {
+  if (trace) {
+    trace.defaultPermissionApplied = true;
+  }
+  if (config.defaultPermission === "read" && READ_OPERATIONS.includes(operation)) {
     return {
       allowed: true,
       reason: "Allowed by default read permission",
@@ -256,6 +699,122 @@ export async function checkPermission(
   };
 }
 
+// Returns the first property the rule does not allow writing, if any
+export function findForbiddenProperty(
+  rule: Rule,
+  propertyNames: string[]
+): string | undefined {
+  return propertyNames.find(
+    (name) =>
+      rule.protectedProperties?.includes(name) ||
+      (rule.writableProperties !== undefined &&
+        !rule.writableProperties.includes(name))
+  );
+}
+
+// Same evaluation as checkPermission, but records every step along the way
+export async function explainPermission(
+  client: Client,
+  config: Config,
+  resourceId: string,
+  operation: OperationType,
+  options: Omit<CheckPermissionOptions, "trace"> = {}
+): Promise<PermissionTrace> {
+  const trace: PermissionTrace = {
+    resourceId,
+    operation,
+    ancestors: await getAncestorChain(client, resourceId),
+    rules: [],
+    defaultPermissionApplied: false,
+    decision: { allowed: false, reason: "" },
+  };
+
+  const result = await checkPermission(
+    client,
+    config,
+    resourceId,
+    operation,
+    { ...options, trace }
+  );
+  trace.decision = { allowed: result.allowed, reason: result.reason };
+
+  return trace;
+}
+
+// Static check (no API calls): could any resource ever be granted this operation?
+export function isOperationConfigured(
+  config: Config,
+  operation: OperationType
+): boolean {
+  if (config.defaultPermission === "read" && READ_OPERATIONS.includes(operation)) {
+    return true;
+  }
+  return config.rules.some(
+    (rule) => rule.effect !== "deny" && rule.permissions.includes(operation)
+  );
+}
+
+// Static check: allow rules (or some of their permissions) that a deny rule
+// on the same page/database always overrides. Hierarchy is not resolved here.
+export function findShadowedRules(config: Config): string[] {
+  const warnings: string[] = [];
+  const denyRules = config.rules.filter(
+    (rule) => rule.effect === "deny" && !rule.condition
+  );
+
+  config.rules.forEach((rule, index) => {
+    if (rule.effect === "deny") {
+      return;
+    }
+    const scopeId = rule.pageId ?? rule.databaseId ?? rule.dataSourceId;
+    if (!scopeId) {
+      return;
+    }
+
+    for (const deny of denyRules) {
+      const denyScopeId = deny.pageId ?? deny.databaseId ?? deny.dataSourceId;
+      if (!denyScopeId || !idsMatch(scopeId, denyScopeId)) {
+        continue;
+      }
+      const shadowed = rule.permissions.filter((p) =>
+        deny.permissions.includes(p)
+      );
+      if (shadowed.length === rule.permissions.length) {
+        warnings.push(
+          `rules.${index}: rule '${rule.name}' can never take effect because deny rule '${deny.name}' covers all of its permissions`
+        );
+      } else if (shadowed.length > 0) {
+        warnings.push(
+          `rules.${index}: permissions ${shadowed.join(", ")} of rule '${rule.name}' are always denied by rule '${deny.name}'`
+        );
+      }
+    }
+  });
+
+  return warnings;
+}
+
+// Reads never wait for approval, even under "approval": "required"
+export function requiresApproval(rule: Rule, operation: OperationType): boolean {
+  if (!rule.approval || READ_OPERATIONS.includes(operation)) {
+    return false;
+  }
+  return rule.approval === "required" || rule.approval[operation] === "required";
+}
+
+// Keep the hierarchy cache in sync with writes made through safe-notion
+export function recordParent(resourceId: string, parentId: string): void {
+  setCached("parents", parentCacheKey(resourceId), parentId);
+}
+
+// A move or delete changes the hierarchy for every token
+export function invalidateParent(resourceId: string): void {
+  deleteCachedMatching(
+    "parents",
+    (key) => key.endsWith(`:${normalizeId(resourceId)}`)
+  );
+}
+
 export function clearCache(): void {
-  parentCache.clear();
+  clearCacheStore();
 }
@@ -0,0 +1,115 @@
+import { readStateFile, writeStateFile, withStateLock } from "./state.ts";
+import { READ_OPERATIONS } from "./permissions.ts";
+import type { OperationType, Rule, RuleLimits } from "./types.ts";
+
+// Per-rule write counters, persisted so limits hold across CLI invocations
+
+type Category = "writes" | "deletes" | "creates";
+
+type QuotaState = Record<string, Partial<Record<Category, number[]>>>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const STATE_FILE = "quota.json";
+
+// Counters for the current process ("per run" limits)
+const runCounts = new Map<string, number>();
+
+function categoriesOf(operation: OperationType): Category[] {
+  if (READ_OPERATIONS.includes(operation)) {
+    return [];
+  }
+  const categories: Category[] = ["writes"];
+  if (operation === "block:delete") {
+    categories.push("deletes");
+  }
+  if (operation === "page:create" || operation === "database:create") {
+    categories.push("creates");
+  }
+  return categories;
+}
+
+const LIMIT_KEYS: Record<
+  Category,
+  { hour: keyof RuleLimits; day: keyof RuleLimits; run: keyof RuleLimits }
+> = {
+  writes: {
+    hour: "maxWritesPerHour",
+    day: "maxWritesPerDay",
+    run: "maxWritesPerRun",
+  },
+  deletes: {
+    hour: "maxDeletesPerHour",
+    day: "maxDeletesPerDay",
+    run: "maxDeletesPerRun",
+  },
+  creates: {
+    hour: "maxCreatesPerHour",
+    day: "maxCreatesPerDay",
+    run: "maxCreatesPerRun",
+  },
+};
+
+// Checks the rule's limits for this operation and, if none is exceeded,
+// counts the operation. `count` is the number of writes it performs (e.g.
+// blocks appended); deletes and creates count once per operation. Returns
+// the reason when a limit is exceeded.
+export function consumeQuota(
+  rule: Rule,
+  operation: OperationType,
+  count = 1
+): string | null {
+  const limits = rule.limits;
+  const categories = categoriesOf(operation);
+  if (!limits || categories.length === 0) {
+    return null;
+  }
+
+  return withStateLock(STATE_FILE, () =>
+    countUsage(rule, limits, categories, count)
+  );
+}
+
+function countUsage(
+  rule: Rule,
+  limits: RuleLimits,
+  categories: Category[],
+  count: number
+): string | null {
+  const now = Date.now();
+  const state = readStateFile<QuotaState>(STATE_FILE, {});
+  const usage = state[rule.name] ?? {};
+
+  for (const category of categories) {
+    const keys = LIMIT_KEYS[category];
+    const timestamps = (usage[category] ?? []).filter((t) => t > now - DAY_MS);
+    const lastHour = timestamps.filter((t) => t > now - HOUR_MS).length;
+    const thisRun = runCounts.get(`${rule.name}:${category}`) ?? 0;
+    const amount = category === "writes" ? count : 1;
+
+    const checks: Array<[keyof RuleLimits, number]> = [
+      [keys.hour, lastHour],
+      [keys.day, timestamps.length],
+      [keys.run, thisRun],
+    ];
+    for (const [key, used] of checks) {
+      const max = limits[key];
+      if (max !== undefined && used + amount > max) {
+        return `Quota exceeded: rule '${rule.name}' allows ${key} = ${max}`;
+      }
+    }
+    usage[category] = timestamps;
+  }
+
+  for (const category of categories) {
+    const amount = category === "writes" ? count : 1;
+    usage[category]?.push(...Array<number>(amount).fill(now));
+    const runKey = `${rule.name}:${category}`;
+    runCounts.set(runKey, (runCounts.get(runKey) ?? 0) + amount);
+  }
+  state[rule.name] = usage;
+  writeStateFile(STATE_FILE, state);
+
+  return null;
+}
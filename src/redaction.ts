@@ -0,0 +1,188 @@
+import type { RedactionConfig, RedactionPattern } from "./types.ts";
+
+// Withholds configured data from everything printed or returned to an agent.
+// Redacted values are replaced with markers ("redacted": true on the object,
+// [REDACTED:<name>] inside text) so the caller knows something was removed.
+
+type Json = Record<string, unknown>;
+
+interface CompiledPattern {
+  regex: RegExp;
+  marker: string;
+}
+
+// Property types whose plain string values are checked against patterns
+const MASKABLE_PROPERTY_TYPES = ["email", "phone_number", "url"];
+
+// Block text kept in plain strings instead of rich text
+const BLOCK_TEXT_FIELDS: Record<string, string> = {
+  child_page: "title",
+  child_database: "title",
+  equation: "expression",
+};
+
+let activeConfig: RedactionConfig | undefined;
+let compiledPatterns: CompiledPattern[] = [];
+
+export function setRedaction(config: RedactionConfig | undefined): void {
+  activeConfig = config;
+  compiledPatterns = (config?.patterns ?? []).map(compilePattern);
+}
+
+function compilePattern(pattern: RedactionPattern): CompiledPattern {
+  const flags = new Set(`g${pattern.flags ?? ""}`);
+  return {
+    regex: new RegExp(pattern.pattern, [...flags].join("")),
+    marker: pattern.name ? `[REDACTED:${pattern.name}]` : "[REDACTED]",
+  };
+}
+
+function normalizeId(id: string): string {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+function isRecord(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Returns the masked text, or undefined when nothing matched
+function maskText(text: string): string | undefined {
+  let masked = text;
+  for (const { regex, marker } of compiledPatterns) {
+    masked = masked.replace(regex, marker);
+  }
+  return masked === text ? undefined : masked;
+}
+
+// Plain text output such as rendered Markdown
+export function redactText(text: string): string {
+  return maskText(text) ?? text;
+}
+
+export function redact<T>(data: T): T {
+  if (!activeConfig) {
+    return data;
+  }
+  return redactValue(data) as T;
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const node: Json = {};
+  for (const [key, child] of Object.entries(value)) {
+    node[key] = redactValue(child);
+  }
+
+  if (typeof node.plain_text === "string") {
+    redactRichText(node);
+  }
+  if (node.object === "block") {
+    redactBlockText(node);
+  }
+  if (node.object === "user") {
+    redactUser(node);
+  }
+  if (node.object === "page" && isRecord(node.properties)) {
+    redactProperties(node);
+  }
+  return node;
+}
+
+// Nested objects are already copies made by redactValue, so they are
+// updated in place
+function redactRichText(item: Json): void {
+  let changed = false;
+  const mask = (target: unknown, key: string) => {
+    if (!isRecord(target) || typeof target[key] !== "string") return;
+    const masked = maskText(target[key]);
+    if (masked !== undefined) {
+      target[key] = masked;
+      changed = true;
+    }
+  };
+
+  mask(item, "plain_text");
+  mask(item, "href");
+  if (isRecord(item.text)) {
+    mask(item.text, "content");
+    mask(item.text.link, "url");
+  }
+  mask(item.equation, "expression");
+  if (changed) {
+    item.redacted = true;
+  }
+}
+
+function redactBlockText(block: Json): void {
+  const type = String(block.type);
+  const field = BLOCK_TEXT_FIELDS[type];
+  const data = block[type];
+  if (!field || !isRecord(data) || typeof data[field] !== "string") {
+    return;
+  }
+  const masked = maskText(data[field]);
+  if (masked !== undefined) {
+    data[field] = masked;
+    block.redacted = true;
+  }
+}
+
+function redactUser(user: Json): void {
+  if (!activeConfig?.peopleEmails || !isRecord(user.person)) {
+    return;
+  }
+  if ("email" in user.person) {
+    const { email: _email, ...person } = user.person;
+    user.person = person;
+    user.redacted = true;
+  }
+}
+
+// Property names configured for the page's database or data source
+function redactedPropertyNames(page: Json): Set<string> {
+  const configured = activeConfig?.properties ?? {};
+  const parent = isRecord(page.parent) ? page.parent : {};
+  const parentIds = [parent.database_id, parent.data_source_id]
+    .filter((id): id is string => typeof id === "string")
+    .map(normalizeId);
+
+  const names = new Set(configured["*"] ?? []);
+  for (const [id, properties] of Object.entries(configured)) {
+    if (id !== "*" && parentIds.includes(normalizeId(id))) {
+      properties.forEach((name) => names.add(name));
+    }
+  }
+  return names;
+}
+
+function redactProperties(page: Json): void {
+  const names = redactedPropertyNames(page);
+  const properties: Json = {};
+
+  for (const [name, value] of Object.entries(page.properties as Json)) {
+    if (!isRecord(value)) {
+      properties[name] = value;
+      continue;
+    }
+    if (names.has(name)) {
+      properties[name] = { id: value.id, type: value.type, redacted: true };
+      continue;
+    }
+
+    const type = String(value.type);
+    const text = value[type];
+    const masked =
+      MASKABLE_PROPERTY_TYPES.includes(type) && typeof text === "string"
+        ? maskText(text)
+        : undefined;
+    properties[name] =
+      masked !== undefined ? { ...value, [type]: masked, redacted: true } : value;
+  }
+  page.properties = properties;
+}
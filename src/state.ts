@@ -0,0 +1,98 @@
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+// Local state files (quotas, approval queue, journal) that must survive across runs
+
+const STATE_DIR = join(
+  process.env.XDG_STATE_HOME ?? join(homedir(), ".local", "state"),
+  "safe-notion"
+);
+
+export function getStatePath(name: string): string {
+  return join(STATE_DIR, name);
+}
+
+export function readStateFile<T>(name: string, fallback: T): T {
+  const path = getStatePath(name);
+  if (!existsSync(path)) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStateFile(name: string, data: unknown): void {
+  const path = getStatePath(name);
+  mkdirSync(dirname(path), { recursive: true });
+  // Write then rename so concurrent readers never see a partial file
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data), "utf-8");
+  renameSync(tmpPath, path);
+}
+
+
+// A lock older than this is left over from a crashed process
+const STALE_LOCK_MS = 10_000;
+const LOCK_TIMEOUT_MS = 5_000;
+
+// Runs a read-modify-write of a state file while holding its lock, so
+// concurrent processes (parallel agents) do not overwrite each other
+export function withStateLock<T>(name: string, fn: () => T): T {
+  const lockPath = `${getStatePath(name)}.lock`;
+  mkdirSync(dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      closeSync(openSync(lockPath, "wx"));
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      if (isStaleLock(lockPath)) {
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw {
+          error: `Timed out waiting for the lock on ${name}`,
+          code: "STATE_LOCKED",
+        };
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 10);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    unlinkSync(lockPath);
+  }
+}
+
+function isStaleLock(lockPath: string): boolean {
+  try {
+    if (Date.now() - statSync(lockPath).mtimeMs < STALE_LOCK_MS) {
+      return false;
+    }
+    unlinkSync(lockPath);
+    return true;
+  } catch {
+    // Released (or removed) in the meantime
+    return true;
+  }
+}
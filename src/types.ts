@@ -5,12 +5,19 @@ export const GranularPermissionValues = [
   "page:read",
   "page:update",
   "page:create",
+  "page:move",
   "database:read",
   "database:query",
   "database:create",
+  "database:update",
+  "database:schema",
   "block:read",
   "block:append",
+  "block:update",
   "block:delete",
+  "comment:read",
+  "comment:create",
+  "file:upload",
 ] as const;
 
 export type GranularPermission = (typeof GranularPermissionValues)[number];
@@ -20,12 +27,84 @@ export const PermissionSchema = z.enum(GranularPermissionValues);
 export type Permission = z.infer<typeof PermissionSchema>;
 
 // Condition for conditional access
-export const ConditionSchema = z.object({
-  property: z.string(),
-  type: z.enum(["people", "select", "multi_select", "status", "checkbox"]),
-  equals: z.union([z.string(), z.boolean()]),
+export const ConditionValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+export type ConditionValue = z.infer<typeof ConditionValueSchema>;
+
+const ConditionOperatorKeys = [
+  "equals",
+  "not_equals",
+  "in",
+  "contains",
+  "is_empty",
+  "greater_than",
+  "greater_than_or_equal_to",
+  "less_than",
+  "less_than_or_equal_to",
+] as const;
+
+// Single property check; every operator given must hold
+export const PropertyConditionSchema = z
+  .object({
+    property: z.string(),
+    type: z.enum([
+      "people",
+      "select",
+      "multi_select",
+      "status",
+      "checkbox",
+      "number",
+      "date",
+      "rich_text",
+      "title",
+      "relation",
+      "formula",
+    ]),
+    equals: ConditionValueSchema.optional(),
+    not_equals: ConditionValueSchema.optional(),
+    in: z.array(ConditionValueSchema).optional(),
+    contains: z.string().optional(),
+    is_empty: z.boolean().optional(),
+    // Numeric comparison for numbers, ISO 8601 comparison for dates
+    greater_than: z.union([z.number(), z.string()]).optional(),
+    greater_than_or_equal_to: z.union([z.number(), z.string()]).optional(),
+    less_than: z.union([z.number(), z.string()]).optional(),
+    less_than_or_equal_to: z.union([z.number(), z.string()]).optional(),
+  })
+  .refine(
+    (data) => ConditionOperatorKeys.some((key) => data[key] !== undefined),
+    { message: `Condition needs one of: ${ConditionOperatorKeys.join(", ")}` }
+  );
+export type PropertyCondition = z.infer<typeof PropertyConditionSchema>;
+
+// Boolean composition of property conditions
+export type Condition =
+  | PropertyCondition
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
+export const ConditionSchema: z.ZodType<Condition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(ConditionSchema).min(1) }),
+    z.object({ any: z.array(ConditionSchema).min(1) }),
+    z.object({ not: ConditionSchema }),
+    PropertyConditionSchema,
+  ])
+);
+
+// Write quotas of a rule ("per run" counts within a single process)
+export const RuleLimitsSchema = z.object({
+  maxWritesPerHour: z.number().int().nonnegative().optional(),
+  maxWritesPerDay: z.number().int().nonnegative().optional(),
+  maxWritesPerRun: z.number().int().nonnegative().optional(),
+  maxDeletesPerHour: z.number().int().nonnegative().optional(),
+  maxDeletesPerDay: z.number().int().nonnegative().optional(),
+  maxDeletesPerRun: z.number().int().nonnegative().optional(),
+  maxCreatesPerHour: z.number().int().nonnegative().optional(),
+  maxCreatesPerDay: z.number().int().nonnegative().optional(),
+  maxCreatesPerRun: z.number().int().nonnegative().optional(),
 });
-export type Condition = z.infer<typeof ConditionSchema>;
+export type RuleLimits = z.infer<typeof RuleLimitsSchema>;
 
 // Single rule definition
 export const RuleSchema = z
@@ -33,18 +112,114 @@ export const RuleSchema = z
     name: z.string(),
     pageId: z.string().uuid().optional(),
     databaseId: z.string().uuid().optional(),
+    // A single data source of a multi-source database
+    dataSourceId: z.string().uuid().optional(),
+    // "deny" rules block the listed permissions and override any allow rule
+    effect: z.enum(["allow", "deny"]).default("allow"),
     permissions: z.array(PermissionSchema),
     condition: ConditionSchema.optional(),
+    // Property names page:update / database:create may write (all if omitted)
+    writableProperties: z.array(z.string()).optional(),
+    // Property names that must never be written
+    protectedProperties: z.array(z.string()).optional(),
+    limits: RuleLimitsSchema.optional(),
+    // Reject schema changes that lose data (removing properties or options)
+    forbidDestructiveSchemaChanges: z.boolean().optional(),
+    // Queue operations for human approval instead of executing them:
+    // "required" for every write operation, or per operation
+    approval: z
+      .union([
+        z.literal("required"),
+        z.partialRecord(PermissionSchema, z.literal("required")),
+      ])
+      .optional(),
   })
-  .refine((data) => data.pageId || data.databaseId, {
-    message: "Either pageId or databaseId must be specified",
+  .refine((data) => data.pageId || data.databaseId || data.dataSourceId, {
+    message: "One of pageId, databaseId or dataSourceId must be specified",
   });
 export type Rule = z.infer<typeof RuleSchema>;
 
+// Audit log settings
+export const AuditConfigSchema = z.object({
+  path: z.string(),
+  enabled: z.boolean().default(true),
+});
+export type AuditConfig = z.infer<typeof AuditConfigSchema>;
+
+// Limits applied to every file upload (anything is allowed if a list is omitted)
+export const UploadsConfigSchema = z.object({
+  maxSizeBytes: z.number().int().positive().optional(),
+  // MIME types, "image/*" style wildcards allowed
+  allowedMimeTypes: z.array(z.string()).optional(),
+  // File extensions with or without the leading dot
+  allowedExtensions: z.array(z.string()).optional(),
+});
+export type UploadsConfig = z.infer<typeof UploadsConfigSchema>;
+
+// Data withheld from command output (see redaction.ts)
+export const RedactionPatternSchema = z
+  .object({
+    // Shown in the replacement marker, e.g. [REDACTED:api-key]
+    name: z.string().optional(),
+    pattern: z.string(),
+    // Extra RegExp flags such as "i" ("g" is always set)
+    flags: z.string().optional(),
+  })
+  .refine(
+    (data) => {
+      try {
+        new RegExp(data.pattern, data.flags);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression or flags", path: ["pattern"] }
+  );
+export type RedactionPattern = z.infer<typeof RedactionPatternSchema>;
+
+export const RedactionConfigSchema = z.object({
+  // Property names per database or data source ID ("*" for every database)
+  properties: z.record(z.string(), z.array(z.string())).optional(),
+  // Masked in rich text and in email/phone/URL property values
+  patterns: z.array(RedactionPatternSchema).optional(),
+  // Remove email addresses from user objects (people properties, mentions)
+  peopleEmails: z.boolean().optional(),
+});
+export type RedactionConfig = z.infer<typeof RedactionConfigSchema>;
+
+// Named profile: replaces the top-level rules (and optionally other settings)
+export const ProfileSchema = z.object({
+  rules: z.array(RuleSchema),
+  defaultPermission: z.enum(["deny", "read"]).optional(),
+  // Environment variable holding the Notion token for this profile
+  tokenEnv: z.string().optional(),
+  audit: AuditConfigSchema.optional(),
+  users: z.record(z.string(), z.string()).optional(),
+  uploads: UploadsConfigSchema.optional(),
+  redaction: RedactionConfigSchema.optional(),
+});
+export type Profile = z.infer<typeof ProfileSchema>;
+
 // Configuration file schema
 export const ConfigSchema = z.object({
-  rules: z.array(RuleSchema),
+  rules: z.array(RuleSchema).default([]),
   defaultPermission: z.enum(["deny", "read"]).default("deny"),
+  // Environment variable holding the Notion token (default: NOTION_TOKEN)
+  tokenEnv: z.string().optional(),
+  audit: AuditConfigSchema.optional(),
+  // Named user aliases for people conditions (value: user ID, email or "me")
+  users: z.record(z.string(), z.string()).optional(),
+  uploads: UploadsConfigSchema.optional(),
+  redaction: RedactionConfigSchema.optional(),
+  // SHA-256 (hex) of the secret that 'approvals approve/reject' require in
+  // SAFE_NOTION_APPROVER_SECRET; without it they need an interactive terminal
+  approverSecretHash: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/, "Must be a hex-encoded SHA-256 hash")
+    .optional(),
+  // Selected with --profile
+  profiles: z.record(z.string(), ProfileSchema).optional(),
 });
 export type Config = z.infer<typeof ConfigSchema>;
 
@@ -55,10 +230,146 @@ export interface PermissionCheckResult {
   reason: string;
 }
 
+// Page property values keyed by property name, as returned by the pages API
+// (create/update requests share the same shape for supported types)
+export type PropertyValues = Record<string, unknown>;
+
+export interface CheckPermissionOptions {
+  // Page whose properties rule conditions are evaluated against
+  pageIdForCondition?: string;
+  // Properties a write would set; conditions must also hold for the result
+  proposedProperties?: PropertyValues;
+  trace?: PermissionTrace;
+}
+
+// Block with its nested children resolved; subtrees the caller may not read
+// are marked as withheld instead of being fetched
+export type BlockNode = Record<string, unknown> & {
+  id: string;
+  type: string;
+  has_children: boolean;
+  children?: BlockNode[];
+  withheld?: boolean;
+  // Children exist but were not fetched because of the depth limit
+  truncated?: boolean;
+  // Page object of a child_page block, when child pages are expanded
+  page?: Record<string, unknown>;
+};
+
+// Page together with its full block tree
+export interface PageContent {
+  page: Record<string, unknown>;
+  blocks: BlockNode[];
+  // True when the page body itself could not be read
+  withheld?: boolean;
+}
+
+// Trace of a single permission evaluation (used by `explain`)
+export interface RuleTrace {
+  name: string;
+  effect: Rule["effect"];
+  matched: boolean;
+  hasPermission?: boolean;
+}
+
+export interface ConditionTrace {
+  // Page whose current properties were read (absent for new database pages)
+  pageId?: string;
+  // Whether the properties sent with the write were evaluated as well
+  proposed: boolean;
+  condition: Condition;
+  met: boolean;
+}
+
+export interface PermissionTrace {
+  resourceId: string;
+  operation: OperationType;
+  // Resource followed by its parents, nearest first
+  ancestors: string[];
+  rules: RuleTrace[];
+  matchedRule?: string;
+  condition?: ConditionTrace;
+  defaultPermissionApplied: boolean;
+  decision: { allowed: boolean; reason: string };
+}
+
+// Audit log entry (one JSON line per permission decision)
+export interface AuditEntry {
+  timestamp: string;
+  command: string;
+  operation: string;
+  resourceId: string;
+  rule?: string;
+  reason: string;
+  allowed: boolean;
+  payloadHash?: string;
+}
+
 // Error response format
 export interface ErrorResponse {
   error: string;
   code: string;
+  // Set with code PENDING_APPROVAL
+  approvalId?: string;
+}
+
+// Prior state recorded before a destructive write, used by "undo"
+export interface JournalEntry {
+  id: string;
+  createdAt: string;
+  command: string;
+  operation: "page:update" | "block:append" | "block:update" | "block:delete";
+  resourceId: string;
+  // page:update: values of the updated properties before the write
+  previousProperties?: Record<string, unknown>;
+  // block:append: IDs of the appended top-level blocks
+  appendedBlockIds?: string[];
+  // block:update: the block before the write
+  previousBlock?: BlockNode;
+  // block:delete: the deleted block with its subtree, and its parent
+  deletedBlock?: BlockNode;
+  parentId?: string;
+  undoneAt?: string;
+}
+
+// Client call queued for approval, replayed as-is once approved
+export type ApprovableMethod =
+  | "createPage"
+  | "updatePage"
+  | "movePage"
+  | "createDatabasePage"
+  | "createDatabase"
+  | "updateDatabaseSchema"
+  | "appendBlockChildren"
+  | "updateBlock"
+  | "deleteBlock"
+  | "createComment"
+  | "uploadFile";
+
+export interface ApprovalRequest {
+  method: ApprovableMethod;
+  args: unknown[];
+}
+
+export type ApprovalStatus =
+  | "pending"
+  | "executed"
+  | "failed"
+  | "rejected";
+
+export interface Approval {
+  id: string;
+  status: ApprovalStatus;
+  createdAt: string;
+  decidedAt?: string;
+  command: string;
+  operation: OperationType;
+  resourceId: string;
+  rule: string;
+  request: ApprovalRequest;
+  result?: unknown;
+  error?: string;
+  reason?: string;
 }
 
 // Operation types for permission checking (uses granular permission format)
@@ -73,3 +384,245 @@ export interface ResourceIdentifier {
   id: string;
   parentId?: string;
 }
+
+// MCP tool input schemas (shared with the CLI argument shapes)
+const NotionObjectSchema = z.record(z.string(), z.unknown());
+
+export const PageGetInputSchema = z.object({
+  pageId: z.string().describe("Page ID"),
+});
+
+export const PageReadInputSchema = z.object({
+  pageId: z.string().describe("Page ID"),
+});
+
+export const PageDumpInputSchema = z.object({
+  pageId: z.string().describe("Page ID"),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Levels of nested blocks and child pages to fetch (default 3)"),
+});
+
+export const PageCreateInputSchema = z.object({
+  parentId: z.string().describe("Parent page ID"),
+  title: z.string().describe("Page title"),
+  icon: z.string().optional().describe("Page icon emoji"),
+  content: z
+    .array(NotionObjectSchema)
+    .optional()
+    .describe("Page content as an array of Notion blocks"),
+  markdown: z
+    .string()
+    .optional()
+    .describe("Page content as Markdown (alternative to content)"),
+});
+
+export const PageUpdateInputSchema = z.object({
+  pageId: z.string().describe("Page ID"),
+  properties: NotionObjectSchema.describe("Properties to update"),
+});
+
+export const PageMoveInputSchema = z.object({
+  pageId: z.string().describe("Page ID"),
+  parentId: z.string().describe("New parent page or database ID"),
+});
+
+export const DatabaseGetInputSchema = z.object({
+  databaseId: z.string().describe("Database ID"),
+});
+
+export const DatabaseQueryInputSchema = z.object({
+  databaseId: z.string().describe("Database ID"),
+  dataSourceId: z
+    .string()
+    .optional()
+    .describe("Data source ID (required when the database has several)"),
+  filter: NotionObjectSchema.optional().describe("Notion query filter"),
+  sorts: z.array(NotionObjectSchema).optional().describe("Notion query sorts"),
+  startCursor: z.string().optional().describe("Pagination cursor"),
+  pageSize: z.number().int().min(1).max(100).optional(),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Follow cursors and return every result"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Follow cursors until this many results were returned"),
+});
+
+export const DatabaseCreatePageInputSchema = z.object({
+  databaseId: z.string().describe("Database ID"),
+  dataSourceId: z
+    .string()
+    .optional()
+    .describe("Data source ID (required when the database has several)"),
+  properties: NotionObjectSchema.describe("Page properties"),
+});
+
+// Database schema changes. add/remove need database:schema,
+// rename/options need database:update.
+export const SchemaChangeSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("add"),
+    name: z.string().describe("Property name"),
+    config: NotionObjectSchema.describe(
+      'Property configuration, e.g. { "select": { "options": [{ "name": "A" }] } }'
+    ),
+  }),
+  z.object({
+    kind: z.literal("rename"),
+    name: z.string().describe("Current property name"),
+    newName: z.string().describe("New property name"),
+  }),
+  z.object({
+    kind: z.literal("remove"),
+    name: z.string().describe("Property name"),
+  }),
+  z.object({
+    kind: z.literal("options"),
+    name: z.string().describe("Select, multi-select or status property name"),
+    add: z.array(z.string()).optional().describe("Option names to add"),
+    remove: z.array(z.string()).optional().describe("Option names to remove"),
+    rename: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe("Map of current option name to new name"),
+  }),
+]);
+export type SchemaChange = z.infer<typeof SchemaChangeSchema>;
+
+export const DatabaseCreateInputSchema = z.object({
+  parentId: z.string().describe("Parent page ID"),
+  title: z.string().describe("Database title"),
+  properties: NotionObjectSchema.optional().describe(
+    'Property configurations (default: { "Name": { "title": {} } })'
+  ),
+});
+
+export const DatabaseUpdateSchemaInputSchema = z.object({
+  databaseId: z.string().describe("Database ID"),
+  dataSourceId: z
+    .string()
+    .optional()
+    .describe("Data source ID (required when the database has several)"),
+  change: SchemaChangeSchema,
+});
+
+export const BlockGetInputSchema = z.object({
+  blockId: z.string().describe("Block ID"),
+});
+
+export const BlockChildrenInputSchema = z.object({
+  blockId: z.string().describe("Block ID (can also be a page ID)"),
+  startCursor: z.string().optional().describe("Pagination cursor"),
+  pageSize: z.number().int().min(1).max(100).optional(),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Follow cursors and return every result"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Follow cursors until this many results were returned"),
+});
+
+export const BlockAppendInputSchema = z.object({
+  blockId: z.string().describe("Block ID (can also be a page ID)"),
+  children: z
+    .array(NotionObjectSchema)
+    .optional()
+    .describe("Blocks to append"),
+  markdown: z
+    .string()
+    .optional()
+    .describe("Blocks to append as Markdown (alternative to children)"),
+});
+
+export const BlockUpdateInputSchema = z.object({
+  blockId: z.string().describe("Block ID"),
+  content: NotionObjectSchema.optional().describe(
+    'Type-specific fields, e.g. { "to_do": { "checked": true } }'
+  ),
+  markdown: z
+    .string()
+    .optional()
+    .describe(
+      "New content as Markdown describing a single block (alternative to content)"
+    ),
+});
+
+export const BlockDeleteInputSchema = z.object({
+  blockId: z.string().describe("Block ID"),
+});
+
+// MCP tool input schemas for comment operations
+export const CommentListInputSchema = z.object({
+  blockId: z.string().describe("Page or block ID"),
+  startCursor: z.string().optional().describe("Pagination cursor"),
+  pageSize: z.number().int().min(1).max(100).optional(),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Follow cursors and return every result"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Follow cursors until this many results were returned"),
+});
+
+export const CommentCreateInputSchema = z.object({
+  targetId: z.string().describe("Page or block to comment on"),
+  text: z
+    .string()
+    .describe("Comment text (inline Markdown: bold, italic, code, links)"),
+  discussionId: z
+    .string()
+    .optional()
+    .describe("Reply in this discussion thread on the target instead of starting a new one"),
+});
+
+export const FileUploadInputSchema = z.object({
+  path: z.string().describe("Local path of the file to upload"),
+  targetId: z
+    .string()
+    .describe("Page or block to attach the file to (appended as a block)"),
+  property: z
+    .string()
+    .optional()
+    .describe("Set this files property of the target page instead of appending a block"),
+  name: z.string().optional().describe("File name shown in Notion"),
+});
+
+export const SearchInputSchema = z.object({
+  query: z.string().optional().describe("Search query string"),
+  filter: z
+    .enum(["page", "database"])
+    .optional()
+    .describe("Filter by object type"),
+  sort: z
+    .enum(["ascending", "descending"])
+    .optional()
+    .describe("Sort by last_edited_time"),
+  startCursor: z.string().optional().describe("Pagination cursor"),
+  pageSize: z.number().int().min(1).max(100).optional(),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Follow cursors and return every result"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Follow cursors until this many results were returned"),
+});
@@ -0,0 +1,140 @@
+import { existsSync, statSync } from "node:fs";
+import { basename, extname } from "node:path";
+import type { ErrorResponse, UploadsConfig } from "./types.ts";
+
+// Local file checks for 'file upload', done before anything is sent
+
+export interface LocalFile {
+  path: string;
+  name: string;
+  extension: string;
+  mimeType: string;
+  size: number;
+}
+
+// Notion accepts up to 20 MB in a single request; larger files go in parts
+export const SINGLE_PART_MAX_BYTES = 20 * 1024 * 1024;
+export const PART_SIZE_BYTES = 10 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".heic": "image/heic",
+  ".ico": "image/vnd.microsoft.icon",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".html": "text/html",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx":
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".m4a": "audio/mp4",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+};
+
+export function inspectFile(path: string, name?: string): LocalFile {
+  if (!existsSync(path) || !statSync(path).isFile()) {
+    const error: ErrorResponse = {
+      error: `File not found: ${path}`,
+      code: "FILE_NOT_FOUND",
+    };
+    throw error;
+  }
+
+  // Type limits apply to the local file; a display name may not disguise it
+  const extension = extname(path).toLowerCase();
+  if (name !== undefined && extname(name).toLowerCase() !== extension) {
+    const error: ErrorResponse = {
+      error: `File name '${name}' must keep the extension of ${basename(path)} ('${extension || "(none)"}')`,
+      code: "FILE_TYPE_NOT_ALLOWED",
+    };
+    throw error;
+  }
+  return {
+    path,
+    name: name ?? basename(path),
+    extension,
+    mimeType: MIME_TYPES[extension] ?? "application/octet-stream",
+    size: statSync(path).size,
+  };
+}
+
+function matchesMimeType(mimeType: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized.endsWith("/*")) {
+    return mimeType.startsWith(normalized.slice(0, -1));
+  }
+  return mimeType === normalized;
+}
+
+export function checkUploadLimits(
+  file: LocalFile,
+  limits: UploadsConfig = {}
+): void {
+  if (limits.maxSizeBytes !== undefined && file.size > limits.maxSizeBytes) {
+    const error: ErrorResponse = {
+      error: `File is ${file.size} bytes; uploads are limited to ${limits.maxSizeBytes} bytes`,
+      code: "FILE_TOO_LARGE",
+    };
+    throw error;
+  }
+
+  if (
+    limits.allowedExtensions &&
+    !limits.allowedExtensions.some(
+      (ext) =>
+        (ext.startsWith(".") ? ext : `.${ext}`).toLowerCase() === file.extension
+    )
+  ) {
+    const error: ErrorResponse = {
+      error: `File extension '${file.extension || "(none)"}' is not allowed (allowed: ${limits.allowedExtensions.join(", ")})`,
+      code: "FILE_TYPE_NOT_ALLOWED",
+    };
+    throw error;
+  }
+
+  if (
+    limits.allowedMimeTypes &&
+    !limits.allowedMimeTypes.some((pattern) =>
+      matchesMimeType(file.mimeType, pattern)
+    )
+  ) {
+    const error: ErrorResponse = {
+      error: `MIME type '${file.mimeType}' is not allowed (allowed: ${limits.allowedMimeTypes.join(", ")})`,
+      code: "FILE_TYPE_NOT_ALLOWED",
+    };
+    throw error;
+  }
+}
+
+// Block type that displays the file best
+export function blockTypeFor(
+  mimeType: string
+): "image" | "pdf" | "video" | "audio" | "file" {
+  if (mimeType === "application/pdf") return "pdf";
+  if (mimeType === "image/svg+xml") return "file";
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "file";
+}